@@ -1,7 +1,15 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AuthModule } from './auth/auth.module';
+import { appConfig } from './config/shopify.config';
 import { InventoryModule } from './inventory/inventory.module';
 
 @Module({
-  imports: [InventoryModule],
+  imports: [
+    // Reads .env into process.env, then loads and validates the app config.
+    ConfigModule.forRoot({ isGlobal: true, load: [appConfig] }),
+    AuthModule,
+    InventoryModule,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,47 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+// Stored as "scrypt$<salt hex>$<key hex>" so the format can change without breaking old hashes.
+const SCRYPT_PREFIX = 'scrypt';
+const SCRYPT_KEY_LENGTH = 64;
+
+function deriveKey(password: string, salt: Buffer, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, length, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt, SCRYPT_KEY_LENGTH);
+  return [SCRYPT_PREFIX, salt.toString('hex'), key.toString('hex')].join('$');
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [prefix, saltHex, keyHex] = passwordHash.split('$');
+  if (prefix !== SCRYPT_PREFIX || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const actual = await deriveKey(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// API keys are long random strings, so a plain SHA-256 digest is enough to store them.
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): string {
+  return `inv_${randomBytes(24).toString('base64url')}`;
+}
+
+export function generateSessionToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+export function sameDigest(a: string, b: string): boolean {
+  const left = Buffer.from(a, 'hex');
+  const right = Buffer.from(b, 'hex');
+  return left.length === right.length && timingSafeEqual(left, right);
+}
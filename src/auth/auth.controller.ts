@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Inject,
+  Post,
+  Req,
+  Res,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { AppConfig, appConfig } from '../config/shopify.config';
+import { withSandboxBanner } from '../inventory/ui-styles';
+import { CurrentPrincipal, Public } from './auth.decorators';
+import { LoginDto } from './auth.dto';
+import { readCookie } from './auth.guard';
+import { AuthService, SESSION_COOKIE } from './auth.service';
+import { AuthenticatedRequest, AuthPrincipal, AuthStatus } from './auth.types';
+import { LOGIN_UI_CLIENT_JS } from './login-ui.client';
+import { LOGIN_UI_HTML } from './login-ui.page';
+
+@Controller('auth')
+@Public()
+export class AuthController {
+  private readonly sandbox: boolean;
+
+  constructor(
+    private readonly authService: AuthService,
+    @Inject(appConfig.KEY) config: AppConfig,
+  ) {
+    this.sandbox = config.sandbox.enabled;
+  }
+
+  @Get('login-ui')
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  getLoginUi(): string {
+    return withSandboxBanner(LOGIN_UI_HTML, this.sandbox);
+  }
+
+  @Get('login-ui.js')
+  @Header('Content-Type', 'application/javascript; charset=utf-8')
+  getLoginUiClient(): string {
+    return LOGIN_UI_CLIENT_JS;
+  }
+
+  @Post('login')
+  @HttpCode(HttpStatus.OK)
+  async login(
+    @Body() dto: LoginDto,
+    @Req() request: AuthenticatedRequest,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<AuthStatus> {
+    const session = await this.authService.login(dto.username, dto.password);
+    if (!session) {
+      throw new UnauthorizedException('Wrong username or password');
+    }
+
+    response.cookie(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: request.secure,
+      path: '/',
+      maxAge: this.authService.sessionTtlMs,
+    });
+    return { enabled: this.authService.enabled, user: session.principal };
+  }
+
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  logout(
+    @Req() request: AuthenticatedRequest,
+    @Res({ passthrough: true }) response: Response,
+  ): void {
+    const token = readCookie(request.headers.cookie, SESSION_COOKIE);
+    if (token) {
+      this.authService.logout(token);
+    }
+
+    response.clearCookie(SESSION_COOKIE, { path: '/' });
+  }
+
+  @Get('me')
+  me(@CurrentPrincipal() principal?: AuthPrincipal): AuthStatus {
+    return { enabled: this.authService.enabled, user: principal ?? null };
+  }
+}
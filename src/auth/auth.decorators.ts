@@ -0,0 +1,19 @@
+import { createParamDecorator, ExecutionContext, SetMetadata } from '@nestjs/common';
+import type { AuthRole } from '../config/shopify.config';
+import { AuthenticatedRequest, AuthPrincipal } from './auth.types';
+
+export const ROLE_KEY = 'auth:role';
+export const PUBLIC_KEY = 'auth:public';
+
+// Lowest role allowed to call the route; routes without it need viewer.
+export const RequireRole = (role: AuthRole): MethodDecorator & ClassDecorator =>
+  SetMetadata(ROLE_KEY, role);
+
+// Reachable without signing in (login page, static UI shells).
+export const Public = (): MethodDecorator & ClassDecorator => SetMetadata(PUBLIC_KEY, true);
+
+// The caller, or undefined when authentication is disabled.
+export const CurrentPrincipal = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthPrincipal | undefined =>
+    context.switchToHttp().getRequest<AuthenticatedRequest>().principal,
+);
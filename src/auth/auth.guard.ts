@@ -0,0 +1,62 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { AuthRole } from '../config/shopify.config';
+import { PUBLIC_KEY, ROLE_KEY } from './auth.decorators';
+import { AuthService, SESSION_COOKIE } from './auth.service';
+import { AuthenticatedRequest, AuthPrincipal } from './auth.types';
+
+// Registered globally: every route needs at least viewer unless marked @Public().
+@Injectable()
+export class AuthGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly authService: AuthService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const targets = [context.getHandler(), context.getClass()];
+    request.principal = this.authenticate(request) ?? undefined;
+
+    if (!this.authService.enabled || this.reflector.getAllAndOverride<boolean>(PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    if (!request.principal) {
+      throw new UnauthorizedException('Sign in or send an API key');
+    }
+
+    const required = this.reflector.getAllAndOverride<AuthRole>(ROLE_KEY, targets) ?? 'viewer';
+    if (!this.authService.hasRole(request.principal, required)) {
+      throw new ForbiddenException(`Requires the ${required} role`);
+    }
+
+    return true;
+  }
+
+  // API key (X-API-Key or Authorization: Bearer) first, then the session cookie.
+  private authenticate(request: AuthenticatedRequest): AuthPrincipal | null {
+    const header = request.headers['x-api-key'];
+    const bearer = /^Bearer\s+(.+)$/i.exec(request.headers.authorization ?? '')?.[1];
+    const apiKey = (Array.isArray(header) ? header[0] : header) ?? bearer;
+    if (apiKey) {
+      return this.authService.verifyApiKey(apiKey.trim());
+    }
+
+    const token = readCookie(request.headers.cookie, SESSION_COOKIE);
+    return token ? this.authService.getSession(token) : null;
+  }
+}
+
+export function readCookie(header: string | undefined, name: string): string | undefined {
+  return (header ?? '')
+    .split(';')
+    .map((part) => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
+}
@@ -0,0 +1,119 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AppConfig, appConfig, AUTH_ROLES, AuthConfig, AuthRole } from '../config/shopify.config';
+import {
+  generateSessionToken,
+  hashApiKey,
+  hashPassword,
+  sameDigest,
+  verifyPassword,
+} from './auth-secrets';
+import { AuthPrincipal } from './auth.types';
+
+export const SESSION_COOKIE = 'inventory_session';
+
+interface Session {
+  principal: AuthPrincipal;
+  expiresAt: number;
+}
+
+// Local users with session logins, plus API keys for scripts. Sessions live in memory,
+// so a restart signs everyone out.
+@Injectable()
+export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+  private readonly sessions = new Map<string, Session>();
+  private readonly config: AuthConfig;
+  // Checked for unknown usernames so a failed login takes as long either way.
+  private readonly dummyHash = hashPassword('not-a-user');
+
+  constructor(@Inject(appConfig.KEY) config: AppConfig) {
+    this.config = config.auth;
+    if (!this.enabled) {
+      this.logger.warn(
+        'Authentication is disabled: no users or API keys configured. Anyone who can reach the server can change inventory.',
+      );
+    }
+  }
+
+  get enabled(): boolean {
+    return this.config.users.length > 0 || this.config.apiKeys.length > 0;
+  }
+
+  get sessionTtlMs(): number {
+    return this.config.sessionTtlMs;
+  }
+
+  // Returns a session token, or null when the username or password is wrong.
+  async login(username: string, password: string): Promise<{ token: string; principal: AuthPrincipal } | null> {
+    const user = this.config.users.find(
+      (candidate) => candidate.username.toLowerCase() === username.trim().toLowerCase(),
+    );
+    const valid = await verifyPassword(password, user?.passwordHash ?? (await this.dummyHash));
+    if (!user || !valid) {
+      this.logger.warn(`Failed login for "${username}"`);
+      return null;
+    }
+
+    const principal: AuthPrincipal = { name: user.username, role: user.role, kind: 'user' };
+    const token = generateSessionToken();
+    this.pruneSessions();
+    this.sessions.set(token, { principal, expiresAt: Date.now() + this.config.sessionTtlMs });
+    this.logger.log(`User ${user.username} signed in (${user.role})`);
+    return { token, principal };
+  }
+
+  logout(token: string): void {
+    this.sessions.delete(token);
+  }
+
+  getSession(token: string): AuthPrincipal | null {
+    const session = this.sessions.get(token);
+    if (!session) {
+      return null;
+    }
+
+    if (session.expiresAt <= Date.now()) {
+      this.sessions.delete(token);
+      return null;
+    }
+
+    return session.principal;
+  }
+
+  verifyApiKey(key: string): AuthPrincipal | null {
+    const digest = hashApiKey(key);
+    const apiKey = this.config.apiKeys.find((candidate) => sameDigest(candidate.keyHash, digest));
+    return apiKey ? { name: apiKey.name, role: apiKey.role, kind: 'apiKey' } : null;
+  }
+
+  hasRole(principal: AuthPrincipal, required: AuthRole): boolean {
+    return AUTH_ROLES.indexOf(principal.role) >= AUTH_ROLES.indexOf(required);
+  }
+
+  // Most quantities an upload by this principal may write; undefined means no limit.
+  changeLimitFor(principal?: AuthPrincipal): number | undefined {
+    if (!principal || this.hasRole(principal, 'approver')) {
+      return undefined;
+    }
+
+    return this.config.largeChangeThreshold;
+  }
+
+  private pruneSessions(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, token) => {
+      if (session.expiresAt <= now) {
+        this.sessions.delete(token);
+      }
+    });
+  }
+}
+
+// Recorded on jobs and shown in the UI.
+export function describePrincipal(principal?: AuthPrincipal): string | undefined {
+  if (!principal) {
+    return undefined;
+  }
+
+  return principal.kind === 'apiKey' ? `${principal.name} (API key)` : principal.name;
+}
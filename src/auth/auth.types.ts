@@ -0,0 +1,19 @@
+import type { Request } from 'express';
+import type { AuthRole } from '../config/shopify.config';
+
+// Who made a request: a signed-in user or a script using an API key.
+export interface AuthPrincipal {
+  name: string;
+  role: AuthRole;
+  kind: 'user' | 'apiKey';
+}
+
+export interface AuthenticatedRequest extends Request {
+  principal?: AuthPrincipal;
+}
+
+export interface AuthStatus {
+  // False when no users or API keys are configured; every request is then allowed.
+  enabled: boolean;
+  user: AuthPrincipal | null;
+}
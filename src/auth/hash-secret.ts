@@ -0,0 +1,24 @@
+// Prints values for the auth config:
+//   npm run hash-secret -- <password>   scrypt hash for auth.users[].passwordHash
+//   npm run hash-secret -- --api-key    new API key and its hash for auth.apiKeys[].keyHash
+import { generateApiKey, hashApiKey, hashPassword } from './auth-secrets';
+
+async function main(args: string[]): Promise<void> {
+  if (args[0] === '--api-key') {
+    const key = generateApiKey();
+    process.stdout.write(`API key (give this to the client): ${key}\n`);
+    process.stdout.write(`keyHash (put this in the config):  ${hashApiKey(key)}\n`);
+    return;
+  }
+
+  const password = args[0];
+  if (!password) {
+    process.stderr.write('Usage: npm run hash-secret -- <password> | --api-key\n');
+    process.exitCode = 1;
+    return;
+  }
+
+  process.stdout.write(`${await hashPassword(password)}\n`);
+}
+
+void main(process.argv.slice(2));
@@ -0,0 +1,40 @@
+export const LOGIN_UI_CLIENT_JS = `const loginForm = document.getElementById('loginForm');
+const usernameInput = document.getElementById('username');
+const passwordInput = document.getElementById('password');
+const loginBtn = document.getElementById('loginBtn');
+const statusEl = document.getElementById('status');
+
+// Only same-site paths, so the login page cannot be used to redirect elsewhere.
+const nextPath = () => {
+  const next = new URLSearchParams(location.search).get('next') || '';
+  return next.startsWith('/') && !next.startsWith('//') ? next : '/inventory/upload-ui';
+};
+
+loginForm.addEventListener('submit', async (event) => {
+  event.preventDefault();
+  loginBtn.disabled = true;
+  statusEl.className = 'status muted';
+  statusEl.textContent = 'Signing in...';
+
+  try {
+    const res = await fetch('/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: usernameInput.value, password: passwordInput.value }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      statusEl.className = 'status err';
+      statusEl.textContent = data.message || 'Sign-in failed.';
+      return;
+    }
+
+    location.href = nextPath();
+  } catch (error) {
+    statusEl.className = 'status err';
+    statusEl.textContent = error.message || 'Network/server error.';
+  } finally {
+    loginBtn.disabled = false;
+  }
+});
+`;
@@ -0,0 +1,30 @@
+import { UI_BASE_STYLES } from '../inventory/ui-styles';
+
+export const LOGIN_UI_HTML = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width,initial-scale=1" />
+  <title>Sign in</title>
+  <style>
+${UI_BASE_STYLES}
+    .login { max-width: 360px; margin: 80px auto; }
+    .login label { display: block; margin-bottom: 10px; }
+    .login input { display: block; width: 100%; box-sizing: border-box; margin-top: 4px; padding: 8px; border: 1px solid #dbe3ef; border-radius: 6px; font: inherit; }
+  </style>
+</head>
+<body>
+  <div class="wrap">
+    <form id="loginForm" class="card login">
+      <h1>Sign in</h1>
+      <label class="muted">Username <input id="username" autocomplete="username" required /></label>
+      <label class="muted">Password <input id="password" type="password" autocomplete="current-password" required /></label>
+      <div class="row">
+        <button id="loginBtn" type="submit">Sign in</button>
+        <span id="status" class="status muted"></span>
+      </div>
+    </form>
+  </div>
+  <script src="/auth/login-ui.js"></script>
+</body>
+</html>`;
@@ -0,0 +1,421 @@
+import { plainToInstance, Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  IsUrl,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+  validateSync,
+  ValidationError,
+} from 'class-validator';
+import { AppConfig } from './shopify.config';
+
+class ShopifyConfigSchema {
+  @Matches(/^[\w.-]+$/, {
+    message: 'name may only contain letters, digits, dots, dashes and underscores',
+  })
+  name!: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'shopName must be set (SHOPIFY_SHOP_NAME or SHOPIFY_<STORE>_SHOP_NAME)' })
+  shopName!: string;
+
+  @IsString()
+  @IsNotEmpty({
+    message: 'accessToken must be set (SHOPIFY_ACCESS_TOKEN or SHOPIFY_<STORE>_ACCESS_TOKEN)',
+  })
+  accessToken!: string;
+
+  @Matches(/^\d{4}-\d{2}$|^unstable$/, {
+    message: 'apiVersion must look like 2024-10 (SHOPIFY_API_VERSION)',
+  })
+  apiVersion!: string;
+
+  @IsString()
+  defaultLocationName!: string;
+}
+
+class CatalogSnapshotConfigSchema {
+  @IsInt()
+  @Min(0)
+  ttlMs!: number;
+
+  @IsInt()
+  @Min(100)
+  pollIntervalMs!: number;
+
+  @IsInt()
+  @Min(1000)
+  timeoutMs!: number;
+}
+
+class CircuitBreakerConfigSchema {
+  @IsInt()
+  @Min(1)
+  failureThreshold!: number;
+
+  @IsInt()
+  @Min(0)
+  cooldownMs!: number;
+}
+
+class SafeWriteConfigSchema {
+  @IsBoolean()
+  enabled!: boolean;
+
+  @IsIn(['review', 'retry'], {
+    message: 'onConflict must be "review" or "retry" (SAFE_WRITE_ON_CONFLICT)',
+  })
+  onConflict!: string;
+
+  @IsInt()
+  @Min(0)
+  maxConflictRetries!: number;
+}
+
+// Mirrors AUTH_ROLES; importing it here would be circular (the config imports this file).
+const ROLES = ['viewer', 'operator', 'approver'];
+const ROLE_MESSAGE = `role must be one of ${ROLES.join(', ')}`;
+
+class AuthUserConfigSchema {
+  @Matches(/^[\w.@-]+$/, {
+    message: 'username may only contain letters, digits, dots, dashes, underscores and @',
+  })
+  username!: string;
+
+  @Matches(/^scrypt\$[0-9a-f]+\$[0-9a-f]+$/, {
+    message: 'passwordHash must be a scrypt hash from `npm run hash-secret`',
+  })
+  passwordHash!: string;
+
+  @IsIn(ROLES, { message: ROLE_MESSAGE })
+  role!: string;
+}
+
+class ApiKeyConfigSchema {
+  @Matches(/^[\w.-]+$/, {
+    message: 'name may only contain letters, digits, dots, dashes and underscores',
+  })
+  name!: string;
+
+  @Matches(/^[0-9a-f]{64}$/, {
+    message: 'keyHash must be a SHA-256 hex digest from `npm run hash-secret -- --api-key`',
+  })
+  keyHash!: string;
+
+  @IsIn(ROLES, { message: ROLE_MESSAGE })
+  role!: string;
+}
+
+class AuthConfigSchema {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AuthUserConfigSchema)
+  users!: AuthUserConfigSchema[];
+
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ApiKeyConfigSchema)
+  apiKeys!: ApiKeyConfigSchema[];
+
+  @IsInt()
+  @Min(60000)
+  sessionTtlMs!: number;
+
+  @IsInt()
+  @Min(0)
+  largeChangeThreshold!: number;
+}
+
+class WebhookEndpointConfigSchema {
+  @Matches(/^[\w.-]+$/, {
+    message: 'name may only contain letters, digits, dots, dashes and underscores',
+  })
+  name!: string;
+
+  @IsUrl(
+    { protocols: ['http', 'https'], require_tld: false, require_protocol: true },
+    { message: 'url must be an http(s) URL (WEBHOOK_URL)' },
+  )
+  url!: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'secret must be set to sign requests (WEBHOOK_SECRET)' })
+  secret!: string;
+
+  // Mirrors WEBHOOK_EVENTS, for the same reason as ROLES.
+  @IsIn(['job.completed', 'job.failed', 'job.failures_exceeded'], {
+    each: true,
+    message: 'events must be job.completed, job.failed or job.failures_exceeded (WEBHOOK_EVENTS)',
+  })
+  events!: string[];
+
+  @IsInt()
+  @Min(0)
+  failureThreshold!: number;
+}
+
+class WebhooksConfigSchema {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => WebhookEndpointConfigSchema)
+  endpoints!: WebhookEndpointConfigSchema[];
+
+  @IsInt()
+  @Min(1)
+  maxAttempts!: number;
+
+  @IsInt()
+  @Min(0)
+  retryBaseDelayMs!: number;
+
+  @IsInt()
+  @Min(0)
+  retryMaxDelayMs!: number;
+
+  @IsInt()
+  @Min(100)
+  timeoutMs!: number;
+}
+
+class InboxFolderConfigSchema {
+  @Matches(/^[\w.-]+$/, {
+    message: 'name may only contain letters, digits, dots, dashes and underscores',
+  })
+  name!: string;
+
+  @IsString()
+  @IsNotEmpty({ message: 'path must be set (INBOX_DIR)' })
+  path!: string;
+
+  @IsString()
+  store!: string;
+
+  @IsString()
+  profile!: string;
+
+  @IsIn(['set', 'adjust'], { message: 'mode must be "set" or "adjust" (INBOX_MODE)' })
+  mode!: string;
+}
+
+class InboxConfigSchema {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => InboxFolderConfigSchema)
+  folders!: InboxFolderConfigSchema[];
+
+  @IsInt()
+  @Min(1000)
+  pollIntervalMs!: number;
+
+  @IsInt()
+  @Min(0)
+  settleMs!: number;
+}
+
+class SandboxConfigSchema {
+  @IsBoolean()
+  enabled!: boolean;
+
+  @IsString()
+  @IsNotEmpty({ message: 'seedFile must be set (SANDBOX_SEED_FILE)' })
+  seedFile!: string;
+
+  @IsNumber({}, { message: 'throttleRate must be a number from 0 to 1 (SANDBOX_THROTTLE_RATE)' })
+  @Min(0)
+  @Max(1)
+  throttleRate!: number;
+
+  @IsNumber({}, { message: 'userErrorRate must be a number from 0 to 1 (SANDBOX_USER_ERROR_RATE)' })
+  @Min(0)
+  @Max(1)
+  userErrorRate!: number;
+}
+
+class AppConfigSchema {
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  port!: number;
+
+  @IsBoolean()
+  openUiOnStart!: boolean;
+
+  @IsInt()
+  @Min(1)
+  batchSize!: number;
+
+  @IsInt()
+  @Min(1)
+  defaultQueryCost!: number;
+
+  @IsInt()
+  @Min(1)
+  @Max(250)
+  writeBatchSize!: number;
+
+  @IsInt()
+  @Min(0)
+  maxRetries!: number;
+
+  @IsInt()
+  @Min(0)
+  retryBaseDelayMs!: number;
+
+  @IsInt()
+  @Min(0)
+  retryMaxDelayMs!: number;
+
+  @ValidateNested()
+  @Type(() => CircuitBreakerConfigSchema)
+  circuitBreaker!: CircuitBreakerConfigSchema;
+
+  @ValidateNested()
+  @Type(() => SafeWriteConfigSchema)
+  safeWrite!: SafeWriteConfigSchema;
+
+  @ValidateNested()
+  @Type(() => AuthConfigSchema)
+  auth!: AuthConfigSchema;
+
+  @ValidateNested()
+  @Type(() => WebhooksConfigSchema)
+  webhooks!: WebhooksConfigSchema;
+
+  @ValidateNested()
+  @Type(() => InboxConfigSchema)
+  inbox!: InboxConfigSchema;
+
+  @ValidateNested()
+  @Type(() => SandboxConfigSchema)
+  sandbox!: SandboxConfigSchema;
+
+  @IsString()
+  publicUrl!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  dataDir!: string;
+
+  @ValidateNested()
+  @Type(() => CatalogSnapshotConfigSchema)
+  catalogSnapshot!: CatalogSnapshotConfigSchema;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ShopifyConfigSchema)
+  stores!: ShopifyConfigSchema[];
+
+  @IsString()
+  defaultStore!: string;
+}
+
+// Throws one error listing every invalid setting, so a bad deployment fails at startup.
+export function validateAppConfig(config: AppConfig): AppConfig {
+  const errors = validateSync(plainToInstance(AppConfigSchema, config));
+  // Report "stores.retail.accessToken" rather than "stores.0.accessToken".
+  const problems = [
+    ...flattenErrors(errors),
+    ...checkStores(config),
+    ...checkNames(config),
+    ...checkRetryDelays(config),
+  ].map((problem) =>
+    problem.replace(/^stores\.(\d+)\./, (match, index: string) =>
+      config.stores[Number(index)] ? `stores.${config.stores[Number(index)].name}.` : match,
+    ),
+  );
+  if (problems.length) {
+    const lines = problems.map((problem) => `  - ${problem}`);
+    throw new Error(`Invalid configuration:\n${lines.join('\n')}`);
+  }
+
+  return config;
+}
+
+function checkStores(config: AppConfig): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  config.stores.forEach((store) => {
+    const key = store.name.toLowerCase();
+    if (seen.has(key)) {
+      problems.push(`stores: store "${store.name}" is defined more than once`);
+    }
+    seen.add(key);
+  });
+
+  if (config.stores.length && !seen.has(config.defaultStore.toLowerCase())) {
+    problems.push(`defaultStore "${config.defaultStore}" is not one of the configured stores`);
+  }
+
+  config.inbox.folders.forEach((folder) => {
+    if (folder.store && !seen.has(folder.store.toLowerCase())) {
+      problems.push(
+        `inbox.folders: folder "${folder.name}" uses store "${folder.store}", ` +
+          'which is not one of the configured stores',
+      );
+    }
+  });
+
+  return problems;
+}
+
+function checkNames(config: AppConfig): string[] {
+  const duplicates = (names: string[]): string[] =>
+    names.filter((name, index) => names.indexOf(name) !== index);
+
+  return [
+    ...duplicates(config.auth.users.map((user) => user.username.toLowerCase())).map(
+      (name) => `auth.users: user "${name}" is defined more than once`,
+    ),
+    ...duplicates(config.auth.apiKeys.map((key) => key.name.toLowerCase())).map(
+      (name) => `auth.apiKeys: API key "${name}" is defined more than once`,
+    ),
+    ...duplicates(config.webhooks.endpoints.map((endpoint) => endpoint.name.toLowerCase())).map(
+      (name) => `webhooks.endpoints: webhook "${name}" is defined more than once`,
+    ),
+    ...duplicates(config.inbox.folders.map((folder) => folder.name.toLowerCase())).map(
+      (name) => `inbox.folders: folder "${name}" is defined more than once`,
+    ),
+    ...duplicates(config.inbox.folders.map((folder) => folder.path)).map(
+      (folderPath) => `inbox.folders: directory "${folderPath}" is watched more than once`,
+    ),
+  ];
+}
+
+// Backoff is capped at the max delay, so a max below the base would undercut every retry.
+function checkRetryDelays(config: AppConfig): string[] {
+  const ranges: Array<[string, { retryBaseDelayMs: number; retryMaxDelayMs: number }]> = [
+    ['', config],
+    ['webhooks.', config.webhooks],
+  ];
+
+  return ranges
+    .filter(([, delays]) => delays.retryMaxDelayMs < delays.retryBaseDelayMs)
+    .map(
+      ([prefix, delays]) =>
+        `${prefix}retryMaxDelayMs (${delays.retryMaxDelayMs}) must not be less than ` +
+        `${prefix}retryBaseDelayMs (${delays.retryBaseDelayMs})`,
+    );
+}
+
+function flattenErrors(errors: ValidationError[], parent = ''): string[] {
+  return errors.flatMap((error) => {
+    const path = parent ? `${parent}.${error.property}` : error.property;
+    // class-validator messages start with the property name; prefix the parent path.
+    const own = Object.values(error.constraints ?? {}).map((message) =>
+      parent ? `${parent}.${message}` : message,
+    );
+
+    return [...own, ...flattenErrors(error.children ?? [], path)];
+  });
+}
@@ -0,0 +1,39 @@
+import { loadAppConfig } from './shopify.config';
+
+// The sandbox needs no credentials, so it is the smallest configuration that validates.
+const load = (env: NodeJS.ProcessEnv) => loadAppConfig({ SANDBOX: 'true', ...env });
+
+describe('loadAppConfig', () => {
+  it('reads the accepted spellings of boolean flags', () => {
+    expect(load({ SAFE_WRITE: 'yes' }).safeWrite.enabled).toBe(true);
+    expect(load({ SAFE_WRITE: 'OFF' }).safeWrite.enabled).toBe(false);
+    expect(load({ OPEN_UI_ON_START: '0' }).openUiOnStart).toBe(false);
+  });
+
+  it('rejects a boolean flag it cannot read', () => {
+    expect(() => load({ SAFE_WRITE: 'enabled' })).toThrow(
+      'Invalid configuration: SAFE_WRITE must be true or false (also 1/0, yes/no, on/off), ' +
+        'got "enabled"',
+    );
+  });
+
+  it('rejects a retry max delay below the base delay', () => {
+    expect(() => load({ RETRY_BASE_DELAY_MS: '2000', RETRY_MAX_DELAY_MS: '500' })).toThrow(
+      'retryMaxDelayMs (500) must not be less than retryBaseDelayMs (2000)',
+    );
+  });
+
+  it('checks the webhook retry delays the same way', () => {
+    expect(() =>
+      load({ WEBHOOK_RETRY_BASE_DELAY_MS: '5000', WEBHOOK_RETRY_MAX_DELAY_MS: '1000' }),
+    ).toThrow(
+      'webhooks.retryMaxDelayMs (1000) must not be less than webhooks.retryBaseDelayMs (5000)',
+    );
+  });
+
+  it('accepts a retry max delay equal to the base delay', () => {
+    const config = load({ RETRY_BASE_DELAY_MS: '1000', RETRY_MAX_DELAY_MS: '1000' });
+
+    expect(config.retryMaxDelayMs).toBe(1000);
+  });
+});
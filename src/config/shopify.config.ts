@@ -1,33 +1,553 @@
+import { registerAs } from '@nestjs/config';
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { validateAppConfig } from './app-config.schema';
+
+// One Shopify store the app can write to; uploads pick a store by name.
 export interface ShopifyConfig {
+  name: string;
   shopName: string;
   accessToken: string;
   apiVersion: string;
   defaultLocationName: string;
 }
 
+export interface CatalogSnapshotConfig {
+  // How long a downloaded catalog snapshot is reused before a new bulk query runs.
+  ttlMs: number;
+  pollIntervalMs: number;
+  timeoutMs: number;
+}
+
+export interface CircuitBreakerConfig {
+  // Consecutive 5xx/network failures before Shopify calls are paused.
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface SafeWriteConfig {
+  // Condition writes on the quantity read during planning unless an upload says otherwise.
+  enabled: boolean;
+  // review: leave conflicting rows for a person; retry: re-read and write again.
+  onConflict: 'review' | 'retry';
+  maxConflictRetries: number;
+}
+
+// viewer: history and exports; operator: also previews and uploads;
+// approver: also large uploads and rollbacks. Each role includes the ones before it.
+export const AUTH_ROLES = ['viewer', 'operator', 'approver'] as const;
+
+export type AuthRole = (typeof AUTH_ROLES)[number];
+
+export interface AuthUserConfig {
+  username: string;
+  // scrypt hash from `npm run hash-secret`, never the password itself.
+  passwordHash: string;
+  role: AuthRole;
+}
+
+export interface ApiKeyConfig {
+  name: string;
+  // SHA-256 hash of the key from `npm run hash-secret -- --api-key`.
+  keyHash: string;
+  role: AuthRole;
+}
+
+export interface AuthConfig {
+  // Authentication is on as soon as a user or API key is configured.
+  users: AuthUserConfig[];
+  apiKeys: ApiKeyConfig[];
+  sessionTtlMs: number;
+  // Uploads writing more quantities than this need an approver; operators may preview them.
+  largeChangeThreshold: number;
+}
+
+export const WEBHOOK_EVENTS = ['job.completed', 'job.failed', 'job.failures_exceeded'] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookEndpointConfig {
+  name: string;
+  url: string;
+  // HMAC-SHA256 key for the X-Inventory-Signature header.
+  secret: string;
+  events: WebhookEvent[];
+  // job.failures_exceeded fires when failed plus conflict rows exceed this.
+  failureThreshold: number;
+}
+
+export interface WebhooksConfig {
+  endpoints: WebhookEndpointConfig[];
+  maxAttempts: number;
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  timeoutMs: number;
+}
+
+export interface InboxFolderConfig {
+  name: string;
+  // Watched directory; processed files move to its done/ and failed/ subfolders.
+  path: string;
+  // Store and mapping profile for every file in the folder; empty for the defaults.
+  store: string;
+  profile: string;
+  mode: 'set' | 'adjust';
+}
+
+export interface InboxConfig {
+  folders: InboxFolderConfig[];
+  pollIntervalMs: number;
+  // A file is imported once it has not been modified for this long, so half-written
+  // exports are left alone.
+  settleMs: number;
+}
+
+export interface SandboxConfig {
+  // Every store talks to an in-memory fake seeded from seedFile instead of Shopify.
+  enabled: boolean;
+  seedFile: string;
+  // Share of requests answered with a THROTTLED error, from 0 to 1.
+  throttleRate: number;
+  // Share of quantity writes rejected with a userError, from 0 to 1.
+  userErrorRate: number;
+}
+
 export interface AppConfig {
   port: number;
   openUiOnStart: boolean;
   batchSize: number;
-  batchDelayMs: number;
+  // Points assumed for a GraphQL operation until Shopify reports its real cost.
+  defaultQueryCost: number;
+  // Quantities per inventorySetQuantities mutation (Shopify accepts up to 250).
+  writeBatchSize: number;
   maxRetries: number;
   retryBaseDelayMs: number;
-  shopify: ShopifyConfig;
+  retryMaxDelayMs: number;
+  circuitBreaker: CircuitBreakerConfig;
+  safeWrite: SafeWriteConfig;
+  auth: AuthConfig;
+  webhooks: WebhooksConfig;
+  inbox: InboxConfig;
+  sandbox: SandboxConfig;
+  // Base URL for links in notifications; http://localhost:<port> when empty.
+  publicUrl: string;
+  dataDir: string;
+  catalogSnapshot: CatalogSnapshotConfig;
+  stores: ShopifyConfig[];
+  // Store used when an upload does not name one.
+  defaultStore: string;
 }
 
-// Runtime configuration.
+// Shape of the optional JSON config file. "shopify" is the single-store form.
+type ConfigFile = Partial<Omit<AppConfig, 'stores' | 'webhooks' | 'inbox'>> & {
+  webhooks?: Partial<Omit<WebhooksConfig, 'endpoints'>> & {
+    endpoints?: Array<Partial<WebhookEndpointConfig>>;
+  };
+  inbox?: Partial<Omit<InboxConfig, 'folders'>> & {
+    folders?: Array<Partial<InboxFolderConfig>>;
+  };
+  stores?: Array<Partial<ShopifyConfig>>;
+  shopify?: Partial<ShopifyConfig>;
+};
+
+export const DEFAULT_STORE_NAME = 'default';
 
-export const APP_CONFIG: AppConfig = {
+// Stands in for the shop name and token of sandbox stores configured without them.
+export const SANDBOX_SHOP_NAME = 'sandbox';
+
+export const APP_CONFIG_DEFAULTS: Omit<AppConfig, 'stores' | 'defaultStore'> & {
+  store: Pick<ShopifyConfig, 'apiVersion' | 'defaultLocationName'>;
+  webhookEndpoint: Pick<WebhookEndpointConfig, 'events' | 'failureThreshold'>;
+  inboxFolder: Pick<InboxFolderConfig, 'store' | 'profile' | 'mode'>;
+} = {
   port: 3000,
   openUiOnStart: true,
   batchSize: 10,
-  batchDelayMs: 500,
+  defaultQueryCost: 50,
+  writeBatchSize: 100,
   maxRetries: 5,
   retryBaseDelayMs: 1000,
-  shopify: {
-    shopName: 'your shop name',
-    accessToken: 'shopify access token',
+  retryMaxDelayMs: 30000,
+  circuitBreaker: {
+    failureThreshold: 5,
+    cooldownMs: 30000,
+  },
+  safeWrite: {
+    enabled: false,
+    onConflict: 'review',
+    maxConflictRetries: 2,
+  },
+  auth: {
+    users: [],
+    apiKeys: [],
+    sessionTtlMs: 12 * 60 * 60 * 1000,
+    largeChangeThreshold: 500,
+  },
+  webhooks: {
+    endpoints: [],
+    maxAttempts: 5,
+    retryBaseDelayMs: 2000,
+    retryMaxDelayMs: 60000,
+    timeoutMs: 10000,
+  },
+  inbox: {
+    folders: [],
+    pollIntervalMs: 30000,
+    settleMs: 5000,
+  },
+  sandbox: {
+    enabled: false,
+    seedFile: 'sandbox-seed.json',
+    throttleRate: 0,
+    userErrorRate: 0,
+  },
+  publicUrl: '',
+  dataDir: 'data',
+  catalogSnapshot: {
+    ttlMs: 15 * 60 * 1000,
+    pollIntervalMs: 2000,
+    timeoutMs: 10 * 60 * 1000,
+  },
+  store: {
     apiVersion: '2023-01',
     defaultLocationName: '',
   },
+  webhookEndpoint: {
+    events: [...WEBHOOK_EVENTS],
+    failureThreshold: 0,
+  },
+  inboxFolder: {
+    store: '',
+    profile: '',
+    mode: 'set',
+  },
 };
+
+const DEFAULT_CONFIG_FILE = 'config.json';
+
+// Precedence: environment variables, then the JSON config file, then defaults.
+// The file is CONFIG_FILE when set, otherwise ./config.json if it exists.
+export function loadAppConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const file = readConfigFile(env.CONFIG_FILE);
+  const fileSnapshot = (file.catalogSnapshot ?? {}) as Partial<CatalogSnapshotConfig>;
+  const fileBreaker = (file.circuitBreaker ?? {}) as Partial<CircuitBreakerConfig>;
+  const fileSafeWrite = (file.safeWrite ?? {}) as Partial<SafeWriteConfig>;
+  const fileAuth = (file.auth ?? {}) as Partial<AuthConfig>;
+  const fileWebhooks = file.webhooks ?? {};
+  const fileInbox = file.inbox ?? {};
+  const fileSandbox = (file.sandbox ?? {}) as Partial<SandboxConfig>;
+  const defaults = APP_CONFIG_DEFAULTS;
+  const sandbox: SandboxConfig = {
+    enabled:
+      readBoolean('SANDBOX', env.SANDBOX) ?? fileSandbox.enabled ?? defaults.sandbox.enabled,
+    seedFile: env.SANDBOX_SEED_FILE ?? fileSandbox.seedFile ?? defaults.sandbox.seedFile,
+    throttleRate:
+      readNumber(env.SANDBOX_THROTTLE_RATE) ??
+      fileSandbox.throttleRate ??
+      defaults.sandbox.throttleRate,
+    userErrorRate:
+      readNumber(env.SANDBOX_USER_ERROR_RATE) ??
+      fileSandbox.userErrorRate ??
+      defaults.sandbox.userErrorRate,
+  };
+  const stores = loadStores(env, file, sandbox.enabled);
+
+  return validateAppConfig({
+    port: readNumber(env.PORT) ?? file.port ?? defaults.port,
+    openUiOnStart:
+      readBoolean('OPEN_UI_ON_START', env.OPEN_UI_ON_START) ??
+      file.openUiOnStart ??
+      defaults.openUiOnStart,
+    batchSize: readNumber(env.BATCH_SIZE) ?? file.batchSize ?? defaults.batchSize,
+    defaultQueryCost:
+      readNumber(env.DEFAULT_QUERY_COST) ?? file.defaultQueryCost ?? defaults.defaultQueryCost,
+    writeBatchSize:
+      readNumber(env.WRITE_BATCH_SIZE) ?? file.writeBatchSize ?? defaults.writeBatchSize,
+    maxRetries: readNumber(env.MAX_RETRIES) ?? file.maxRetries ?? defaults.maxRetries,
+    retryBaseDelayMs:
+      readNumber(env.RETRY_BASE_DELAY_MS) ?? file.retryBaseDelayMs ?? defaults.retryBaseDelayMs,
+    retryMaxDelayMs:
+      readNumber(env.RETRY_MAX_DELAY_MS) ?? file.retryMaxDelayMs ?? defaults.retryMaxDelayMs,
+    circuitBreaker: {
+      failureThreshold:
+        readNumber(env.CIRCUIT_BREAKER_FAILURE_THRESHOLD) ??
+        fileBreaker.failureThreshold ??
+        defaults.circuitBreaker.failureThreshold,
+      cooldownMs:
+        readNumber(env.CIRCUIT_BREAKER_COOLDOWN_MS) ??
+        fileBreaker.cooldownMs ??
+        defaults.circuitBreaker.cooldownMs,
+    },
+    safeWrite: {
+      enabled:
+        readBoolean('SAFE_WRITE', env.SAFE_WRITE) ??
+        fileSafeWrite.enabled ??
+        defaults.safeWrite.enabled,
+      onConflict: (env.SAFE_WRITE_ON_CONFLICT ??
+        fileSafeWrite.onConflict ??
+        defaults.safeWrite.onConflict) as SafeWriteConfig['onConflict'],
+      maxConflictRetries:
+        readNumber(env.SAFE_WRITE_MAX_RETRIES) ??
+        fileSafeWrite.maxConflictRetries ??
+        defaults.safeWrite.maxConflictRetries,
+    },
+    auth: {
+      users:
+        readList(env.AUTH_USERS, ([username, role, passwordHash]) => ({
+          username,
+          role: role as AuthRole,
+          passwordHash,
+        })) ??
+        fileAuth.users ??
+        defaults.auth.users,
+      apiKeys:
+        readList(env.AUTH_API_KEYS, ([name, role, keyHash]) => ({
+          name,
+          role: role as AuthRole,
+          keyHash,
+        })) ??
+        fileAuth.apiKeys ??
+        defaults.auth.apiKeys,
+      sessionTtlMs:
+        readNumber(env.AUTH_SESSION_TTL_MS) ??
+        fileAuth.sessionTtlMs ??
+        defaults.auth.sessionTtlMs,
+      largeChangeThreshold:
+        readNumber(env.AUTH_LARGE_CHANGE_THRESHOLD) ??
+        fileAuth.largeChangeThreshold ??
+        defaults.auth.largeChangeThreshold,
+    },
+    webhooks: {
+      endpoints: loadWebhookEndpoints(env, fileWebhooks.endpoints ?? []),
+      maxAttempts:
+        readNumber(env.WEBHOOK_MAX_ATTEMPTS) ??
+        fileWebhooks.maxAttempts ??
+        defaults.webhooks.maxAttempts,
+      retryBaseDelayMs:
+        readNumber(env.WEBHOOK_RETRY_BASE_DELAY_MS) ??
+        fileWebhooks.retryBaseDelayMs ??
+        defaults.webhooks.retryBaseDelayMs,
+      retryMaxDelayMs:
+        readNumber(env.WEBHOOK_RETRY_MAX_DELAY_MS) ??
+        fileWebhooks.retryMaxDelayMs ??
+        defaults.webhooks.retryMaxDelayMs,
+      timeoutMs:
+        readNumber(env.WEBHOOK_TIMEOUT_MS) ?? fileWebhooks.timeoutMs ?? defaults.webhooks.timeoutMs,
+    },
+    inbox: {
+      folders: loadInboxFolders(env, fileInbox.folders ?? []),
+      pollIntervalMs:
+        readNumber(env.INBOX_POLL_INTERVAL_MS) ??
+        fileInbox.pollIntervalMs ??
+        defaults.inbox.pollIntervalMs,
+      settleMs: readNumber(env.INBOX_SETTLE_MS) ?? fileInbox.settleMs ?? defaults.inbox.settleMs,
+    },
+    sandbox,
+    publicUrl: env.PUBLIC_URL ?? file.publicUrl ?? defaults.publicUrl,
+    dataDir: env.DATA_DIR ?? file.dataDir ?? defaults.dataDir,
+    catalogSnapshot: {
+      ttlMs:
+        readNumber(env.CATALOG_SNAPSHOT_TTL_MS) ??
+        fileSnapshot.ttlMs ??
+        defaults.catalogSnapshot.ttlMs,
+      pollIntervalMs:
+        readNumber(env.CATALOG_SNAPSHOT_POLL_INTERVAL_MS) ??
+        fileSnapshot.pollIntervalMs ??
+        defaults.catalogSnapshot.pollIntervalMs,
+      timeoutMs:
+        readNumber(env.CATALOG_SNAPSHOT_TIMEOUT_MS) ??
+        fileSnapshot.timeoutMs ??
+        defaults.catalogSnapshot.timeoutMs,
+    },
+    stores,
+    defaultStore: env.SHOPIFY_DEFAULT_STORE ?? file.defaultStore ?? stores[0]?.name ?? '',
+  });
+}
+
+// Stores come from the file's "stores" list (or its single "shopify" block), then env:
+// SHOPIFY_SHOP_NAME/SHOPIFY_ACCESS_TOKEN/... describe the store named SHOPIFY_STORE_NAME
+// ("default"), and SHOPIFY_STORES=retail,wholesale adds SHOPIFY_RETAIL_SHOP_NAME and so on.
+// Env values override file values for a store with the same name. In sandbox mode no
+// credentials are needed, so missing ones are filled with placeholders.
+function loadStores(env: NodeJS.ProcessEnv, file: ConfigFile, sandbox: boolean): ShopifyConfig[] {
+  const stores = new Map<string, Partial<ShopifyConfig>>();
+  const merge = (store: Partial<ShopifyConfig>): void => {
+    const name = (store.name || DEFAULT_STORE_NAME).trim();
+    const existing = stores.get(name.toLowerCase()) ?? {};
+    const defined = Object.fromEntries(
+      Object.entries(store).filter(([, value]) => value !== undefined),
+    );
+    stores.set(name.toLowerCase(), { ...existing, ...defined, name });
+  };
+
+  if (file.shopify) {
+    merge(file.shopify);
+  }
+  (file.stores ?? []).forEach(merge);
+
+  const namedStores = (env.SHOPIFY_STORES ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => name);
+
+  // With nothing configured the empty default store makes validation name the missing settings.
+  if (env.SHOPIFY_SHOP_NAME || env.SHOPIFY_ACCESS_TOKEN || (!stores.size && !namedStores.length)) {
+    merge(readStoreEnv(env, 'SHOPIFY_', env.SHOPIFY_STORE_NAME));
+  }
+
+  namedStores.forEach((name) => {
+    merge(readStoreEnv(env, `SHOPIFY_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`, name));
+  });
+
+  return [...stores.values()].map((store) => ({
+    name: store.name ?? DEFAULT_STORE_NAME,
+    shopName: store.shopName || (sandbox ? SANDBOX_SHOP_NAME : ''),
+    accessToken: store.accessToken || (sandbox ? SANDBOX_SHOP_NAME : ''),
+    apiVersion: store.apiVersion ?? APP_CONFIG_DEFAULTS.store.apiVersion,
+    defaultLocationName:
+      store.defaultLocationName ?? APP_CONFIG_DEFAULTS.store.defaultLocationName,
+  }));
+}
+
+// File endpoints, plus one named "default" from WEBHOOK_URL/WEBHOOK_SECRET/... when set.
+function loadWebhookEndpoints(
+  env: NodeJS.ProcessEnv,
+  fileEndpoints: Array<Partial<WebhookEndpointConfig>>,
+): WebhookEndpointConfig[] {
+  const endpoints = [...fileEndpoints];
+  if (env.WEBHOOK_URL) {
+    endpoints.push({
+      name: 'default',
+      url: env.WEBHOOK_URL,
+      secret: env.WEBHOOK_SECRET,
+      events: readList(env.WEBHOOK_EVENTS, ([event]) => event as WebhookEvent),
+      failureThreshold: readNumber(env.WEBHOOK_FAILURE_THRESHOLD),
+    });
+  }
+
+  const defaults = APP_CONFIG_DEFAULTS.webhookEndpoint;
+  return endpoints.map((endpoint) => ({
+    name: endpoint.name ?? '',
+    url: endpoint.url ?? '',
+    secret: endpoint.secret ?? '',
+    events: endpoint.events ?? defaults.events,
+    failureThreshold: endpoint.failureThreshold ?? defaults.failureThreshold,
+  }));
+}
+
+// File folders, plus one named "default" from INBOX_DIR/INBOX_STORE/... when set.
+function loadInboxFolders(
+  env: NodeJS.ProcessEnv,
+  fileFolders: Array<Partial<InboxFolderConfig>>,
+): InboxFolderConfig[] {
+  const folders = [...fileFolders];
+  if (env.INBOX_DIR) {
+    folders.push({
+      name: 'default',
+      path: env.INBOX_DIR,
+      store: env.INBOX_STORE,
+      profile: env.INBOX_PROFILE,
+      mode: env.INBOX_MODE as InboxFolderConfig['mode'] | undefined,
+    });
+  }
+
+  const defaults = APP_CONFIG_DEFAULTS.inboxFolder;
+  return folders.map((folder) => ({
+    name: folder.name ?? '',
+    path: folder.path ?? '',
+    store: folder.store ?? defaults.store,
+    profile: folder.profile ?? defaults.profile,
+    mode: folder.mode ?? defaults.mode,
+  }));
+}
+
+function readStoreEnv(
+  env: NodeJS.ProcessEnv,
+  prefix: string,
+  name?: string,
+): Partial<ShopifyConfig> {
+  return {
+    name,
+    shopName: env[`${prefix}SHOP_NAME`],
+    accessToken: env[`${prefix}ACCESS_TOKEN`],
+    apiVersion: env[`${prefix}API_VERSION`],
+    defaultLocationName: env[`${prefix}DEFAULT_LOCATION_NAME`],
+  };
+}
+
+// Injected with @Inject(appConfig.KEY); loaded and validated once at startup.
+export const appConfig = registerAs('app', () => loadAppConfig());
+
+// Keeps the last four characters so operators can tell tokens apart.
+export function maskSecret(secret: string): string {
+  if (!secret) {
+    return '(not set)';
+  }
+
+  return secret.length <= 8 ? '****' : `****${secret.slice(-4)}`;
+}
+
+function readConfigFile(configured?: string): ConfigFile {
+  const filePath = path.resolve(configured || DEFAULT_CONFIG_FILE);
+  if (!existsSync(filePath)) {
+    if (configured) {
+      throw new Error(`Invalid configuration: CONFIG_FILE ${filePath} does not exist`);
+    }
+
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf8')) as ConfigFile;
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid configuration: ${filePath} is not valid JSON (${
+        error instanceof Error ? error.message : String(error)
+      })`,
+    );
+  }
+}
+
+// Unparseable values become NaN so validation reports them instead of silently using a default.
+function readNumber(value?: string): number | undefined {
+  if (value == null || value.trim() === '') {
+    return undefined;
+  }
+
+  return Number(value);
+}
+
+// Comma-separated entries of colon-separated fields, e.g. "alice:approver:scrypt$...".
+function readList<T>(value: string | undefined, build: (fields: string[]) => T): T[] | undefined {
+  if (value == null || value.trim() === '') {
+    return undefined;
+  }
+
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry)
+    .map((entry) => build(entry.split(':').map((field) => field.trim())));
+}
+
+// Environment flags accept true/false, 1/0, yes/no and on/off; anything else is rejected
+// here, since the value never reaches the schema as a string.
+function readBoolean(name: string, value?: string): boolean | undefined {
+  if (value == null || value.trim() === '') {
+    return undefined;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+
+  if (['false', '0', 'no', 'off'].includes(normalized)) {
+    return false;
+  }
+
+  throw new Error(
+    `Invalid configuration: ${name} must be true or false (also 1/0, yes/no, on/off), ` +
+      `got "${value}"`,
+  );
+}
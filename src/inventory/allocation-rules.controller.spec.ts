@@ -0,0 +1,17 @@
+import { Reflector } from '@nestjs/core';
+import { ROLE_KEY } from '../auth/auth.decorators';
+import { AllocationRulesController } from './allocation-rules.controller';
+
+describe('AllocationRulesController', () => {
+  const reflector = new Reflector();
+  const roleOf = (handler: (...args: never[]) => unknown) =>
+    reflector.getAllAndOverride(ROLE_KEY, [handler, AllocationRulesController]);
+
+  it('lets viewers read the rules', () => {
+    expect(roleOf(AllocationRulesController.prototype.list)).toBeUndefined();
+  });
+
+  it('needs the approver role to replace the rules', () => {
+    expect(roleOf(AllocationRulesController.prototype.replace)).toBe('approver');
+  });
+});
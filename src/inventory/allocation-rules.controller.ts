@@ -0,0 +1,23 @@
+import { Body, Controller, Get, Put } from '@nestjs/common';
+import { RequireRole } from '../auth/auth.decorators';
+import { AllocationRulesService } from './allocation-rules.service';
+import { AllocationRulesDto } from './inventory.dto';
+import { AllocationRule } from './inventory.types';
+
+@Controller('inventory/allocation-rules')
+export class AllocationRulesController {
+  constructor(private readonly allocationRulesService: AllocationRulesService) {}
+
+  @Get()
+  list(): Promise<AllocationRule[]> {
+    return this.allocationRulesService.list();
+  }
+
+  // Replaces the whole list; order is priority. Rules change what every later upload
+  // publishes, so they need the same role as large changes.
+  @Put()
+  @RequireRole('approver')
+  replace(@Body() dto: AllocationRulesDto): Promise<AllocationRule[]> {
+    return this.allocationRulesService.replace(dto);
+  }
+}
@@ -0,0 +1,136 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { FileStoreService } from '../services/file-store.service';
+import { AllocationRuleDto, AllocationRulesDto } from './inventory.dto';
+import { AllocationRule } from './inventory.types';
+
+const RULES_FILE = 'allocation-rules.json';
+
+// What a rule is matched against for one row.
+export interface AllocationSubject {
+  store: string;
+  location: string;
+  sku: string;
+  vendor?: string;
+  productType?: string;
+  tags?: string[];
+}
+
+export interface AllocationResult {
+  quantity: number;
+  rule: AllocationRule;
+}
+
+// Ordered allocation rules, replaced as a whole so their priority stays explicit.
+@Injectable()
+export class AllocationRulesService {
+  constructor(private readonly fileStore: FileStoreService) {}
+
+  list(): Promise<AllocationRule[]> {
+    return this.fileStore.readJson<AllocationRule[]>(RULES_FILE, []);
+  }
+
+  async replace(dto: AllocationRulesDto): Promise<AllocationRule[]> {
+    const rules = dto.rules.map((rule) => this.toRule(rule));
+    const names = new Set<string>();
+    rules.forEach((rule) => {
+      const key = rule.name.toLowerCase();
+      if (names.has(key)) {
+        throw new BadRequestException(`Allocation rule "${rule.name}" is listed twice`);
+      }
+      names.add(key);
+    });
+
+    await this.fileStore.updateJson<AllocationRule[]>(RULES_FILE, [], () => rules);
+    return rules;
+  }
+
+  private toRule(dto: AllocationRuleDto): AllocationRule {
+    if (dto.buffer === undefined && dto.percentage === undefined && dto.maxPublish === undefined) {
+      throw new BadRequestException(
+        `Allocation rule "${dto.name}" needs a buffer, percentage or maxPublish`,
+      );
+    }
+
+    const clean = (values?: string[]): string[] | undefined => {
+      const kept = (values ?? []).map((value) => value.trim()).filter((value) => value !== '');
+      return kept.length ? [...new Set(kept)] : undefined;
+    };
+    const rule: AllocationRule = {
+      name: dto.name.trim(),
+      stores: clean(dto.stores),
+      locations: clean(dto.locations),
+      vendors: clean(dto.vendors),
+      productTypes: clean(dto.productTypes),
+      tags: clean(dto.tags),
+      skuPattern: dto.skuPattern?.trim() || undefined,
+      buffer: dto.buffer,
+      percentage: dto.percentage,
+      maxPublish: dto.maxPublish,
+    };
+
+    // Drop unset keys so the stored file only shows what the rule uses.
+    return Object.fromEntries(
+      Object.entries(rule).filter(([, value]) => value !== undefined),
+    ) as AllocationRule;
+  }
+}
+
+// Vendor, product type and tags need an extra Shopify read, made only when a rule uses them.
+export function rulesNeedProductData(rules: AllocationRule[]): boolean {
+  return rules.some((rule) => rule.vendors || rule.productTypes || rule.tags);
+}
+
+// The quantity to publish under the first matching rule; null when no rule matches.
+export function applyAllocationRules(
+  rules: AllocationRule[],
+  subject: AllocationSubject,
+  quantity: number,
+): AllocationResult | null {
+  const rule = rules.find((candidate) => ruleMatches(candidate, subject));
+  if (!rule) {
+    return null;
+  }
+
+  let published = Math.max(0, quantity - (rule.buffer ?? 0));
+  if (rule.percentage !== undefined) {
+    published = Math.floor((published * rule.percentage) / 100);
+  }
+  if (rule.maxPublish !== undefined) {
+    published = Math.min(published, rule.maxPublish);
+  }
+
+  return { quantity: published, rule };
+}
+
+function ruleMatches(rule: AllocationRule, subject: AllocationSubject): boolean {
+  const matchesAny = (filter: string[] | undefined, values: Array<string | undefined>) =>
+    !filter ||
+    filter.some((wanted) =>
+      values.some((value) => value?.trim().toLowerCase() === wanted.toLowerCase()),
+    );
+
+  return (
+    matchesAny(rule.stores, [subject.store]) &&
+    matchesAny(rule.locations, [subject.location]) &&
+    matchesAny(rule.vendors, [subject.vendor]) &&
+    matchesAny(rule.productTypes, [subject.productType]) &&
+    matchesAny(rule.tags, subject.tags ?? []) &&
+    (!rule.skuPattern || globToRegExp(rule.skuPattern).test(subject.sku.trim()))
+  );
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,155 @@
+import { UI_SESSION_JS } from './ui-session.client';
+import { UI_TABLES_JS } from './ui-tables.client';
+
+export const HISTORY_UI_CLIENT_JS = `${UI_TABLES_JS}${UI_SESSION_JS}
+const historyWrap = document.getElementById('historyWrap');
+const detailCard = document.getElementById('detailCard');
+const detailTitle = document.getElementById('detailTitle');
+const detailMeta = document.getElementById('detailMeta');
+const downloads = document.getElementById('downloads');
+const rollbackBtn = document.getElementById('rollbackBtn');
+const rollbackStatus = document.getElementById('rollbackStatus');
+const countPlanned = document.getElementById('countPlanned');
+const countUpdated = document.getElementById('countUpdated');
+const countFailed = document.getElementById('countFailed');
+const countSkipped = document.getElementById('countSkipped');
+const countConflict = document.getElementById('countConflict');
+const plannedWrap = document.getElementById('plannedWrap');
+const updatedWrap = document.getElementById('updatedWrap');
+const failedWrap = document.getElementById('failedWrap');
+const skippedWrap = document.getElementById('skippedWrap');
+const conflictWrap = document.getElementById('conflictWrap');
+
+const formatDate = (value) => (value ? new Date(value).toLocaleString() : '');
+const describeKind = (e) => {
+  if (e.kind === 'rollback') return 'rollback of ' + String(e.rollbackOf || '').slice(0, 8);
+  const kind = e.dryRun ? 'preview' : 'upload';
+  return e.quantityMode === 'adjust' ? kind + ' (adjust)' : kind;
+};
+
+let currentRecord = null;
+let canRollback = true;
+session.then((status) => {
+  canRollback = hasRole(status, 'approver');
+});
+
+const historyTableHtml = (entries) => {
+  if (!entries || entries.length === 0) return '<span class="muted">No uploads recorded yet.</span>';
+  const body = entries.map((e) => '<tr class="clickable" data-id="' + esc(e.id) + '">' +
+    '<td>' + esc(formatDate(e.finishedAt)) + '</td>' +
+    '<td>' + esc(e.fileName) + '</td>' +
+    '<td>' + esc(e.store || 'default') + '</td>' +
+    '<td>' + esc(e.user || '') + '</td>' +
+    '<td>' + esc(describeKind(e)) + '</td>' +
+    '<td>' + esc(e.status) + '</td>' +
+    '<td>' + esc(e.rowCount) + '</td>' +
+    '<td>' + esc(e.counts.updated) + '</td>' +
+    '<td>' + esc(e.counts.failed) + '</td>' +
+    '<td>' + esc(e.counts.skipped) + '</td>' +
+    '<td>' + esc(e.counts.conflict || 0) + '</td>' +
+  '</tr>').join('');
+  return '<table><thead><tr><th>Finished</th><th>File</th><th>Store</th><th>User</th><th>Type</th><th>Status</th><th>Rows</th><th>Updated</th><th>Failed</th><th>Skipped</th><th>Conflicts</th></tr></thead><tbody>' + body + '</tbody></table>';
+};
+
+const showDetail = async (id) => {
+  const res = await fetch('/inventory/history/' + encodeURIComponent(id));
+  const record = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    detailCard.hidden = false;
+    detailTitle.textContent = 'Could not load record';
+    detailMeta.textContent = record.message || '';
+    downloads.innerHTML = '';
+    return;
+  }
+
+  const summary = record.summary || {};
+  currentRecord = record;
+  rollbackBtn.hidden = !canRollback || record.dryRun || !summary.updated || summary.updated.length === 0;
+  rollbackStatus.textContent = '';
+  detailCard.hidden = false;
+  detailTitle.textContent = record.fileName;
+  detailMeta.textContent = 'Job ' + record.id + ' | Store ' + (record.store || 'default') +
+    (record.user ? ' | By ' + record.user : '') +
+    ' | ' + formatDate(record.startedAt) +
+    ' to ' + formatDate(record.finishedAt) + ' | SHA-256 ' + record.fileHash +
+    (record.error ? ' | Error: ' + record.error : '');
+  downloads.innerHTML = downloadsHtml(record.id, (record.counts.failed || 0) + (record.counts.conflict || 0));
+  countPlanned.textContent = String(record.counts.planned);
+  countUpdated.textContent = String(record.counts.updated);
+  countFailed.textContent = String(record.counts.failed);
+  countSkipped.textContent = String(record.counts.skipped);
+  countConflict.textContent = String(record.counts.conflict || 0);
+  plannedWrap.innerHTML = planTableHtml(summary.planned);
+  updatedWrap.innerHTML = tableHtml(summary.updated);
+  failedWrap.innerHTML = tableHtml(summary.failed);
+  skippedWrap.innerHTML = tableHtml(summary.skipped);
+  conflictWrap.innerHTML = conflictTableHtml(summary.conflict);
+  detailCard.scrollIntoView({ behavior: 'smooth' });
+};
+
+const loadHistory = async () => {
+  try {
+    const res = await fetch('/inventory/history');
+    const entries = await res.json().catch(() => []);
+    if (!res.ok) {
+      historyWrap.textContent = entries.message || 'Could not load history.';
+      return;
+    }
+
+    historyWrap.innerHTML = historyTableHtml(entries);
+  } catch (error) {
+    historyWrap.textContent = 'Network/server error while loading history.';
+  }
+};
+
+const waitForJob = async (jobId) => {
+  while (true) {
+    const res = await fetch('/inventory/jobs/' + encodeURIComponent(jobId));
+    const job = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(job.message || 'Could not load job.');
+    if (job.status === 'completed' || job.status === 'failed') return job;
+    rollbackStatus.textContent = 'Rolling back... ' + job.processedRows + '/' + job.totalRows;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+};
+
+rollbackBtn.addEventListener('click', async () => {
+  if (!currentRecord) return;
+  const count = currentRecord.summary.updated.length;
+  if (!confirm('Revert ' + count + ' updated item(s) from ' + currentRecord.fileName + ' to their previous quantities?')) return;
+
+  rollbackBtn.disabled = true;
+  rollbackStatus.className = 'status muted';
+  rollbackStatus.textContent = 'Starting rollback...';
+
+  try {
+    const res = await fetch('/inventory/history/' + encodeURIComponent(currentRecord.id) + '/rollback', { method: 'POST' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      rollbackStatus.className = 'status err';
+      rollbackStatus.textContent = data.message || 'Rollback failed to start.';
+      return;
+    }
+
+    const job = await waitForJob(data.jobId);
+    await loadHistory();
+    await showDetail(job.id);
+  } catch (error) {
+    rollbackStatus.className = 'status err';
+    rollbackStatus.textContent = error.message || 'Network/server error during rollback.';
+  } finally {
+    rollbackBtn.disabled = false;
+  }
+});
+
+historyWrap.addEventListener('click', (event) => {
+  const row = event.target.closest('tr[data-id]');
+  if (row) showDetail(row.dataset.id);
+});
+
+// Links such as the ones in webhook payloads open a job directly: history-ui?id=<job id>.
+const linkedId = new URLSearchParams(location.search).get('id');
+loadHistory().then(() => {
+  if (linkedId) showDetail(linkedId);
+});
+`;
@@ -0,0 +1,53 @@
+import { UI_BASE_STYLES } from './ui-styles';
+
+export const HISTORY_UI_HTML = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width,initial-scale=1" />
+  <title>Inventory Sync History</title>
+  <style>
+${UI_BASE_STYLES}
+  </style>
+</head>
+<body>
+  <div class="wrap">
+    <nav class="nav"><a href="/inventory/upload-ui">Upload</a><a href="/inventory/history-ui">History</a><a href="/inventory/profiles-ui">Mapping Profiles</a><a href="/inventory/location-aliases-ui">Location Aliases</a><span id="sessionInfo" class="session muted"></span></nav>
+    <div class="card">
+      <h1>Sync History</h1>
+      <div id="historyWrap" class="muted">Loading history...</div>
+    </div>
+
+    <div id="detailCard" class="card" hidden>
+      <h3 id="detailTitle">Upload</h3>
+      <p id="detailMeta" class="muted"></p>
+      <p id="downloads" class="muted"></p>
+      <div class="row">
+        <button id="rollbackBtn" hidden>Roll back this upload</button>
+        <span id="rollbackStatus" class="status muted"></span>
+      </div>
+      <p class="muted">Rollback restores each updated item to its previous quantity. Items whose stock changed since the upload are reported as conflicts and left alone.</p>
+      <div class="grid">
+        <div class="pill">Planned: <strong id="countPlanned">0</strong></div>
+        <div class="pill">Updated: <strong id="countUpdated">0</strong></div>
+        <div class="pill">Failed: <strong id="countFailed">0</strong></div>
+        <div class="pill">Skipped: <strong id="countSkipped">0</strong></div>
+        <div class="pill">Conflicts: <strong id="countConflict">0</strong></div>
+      </div>
+      <h3>Planned Changes</h3>
+      <div id="plannedWrap"></div>
+      <h3>Updated Rows</h3>
+      <div id="updatedWrap"></div>
+      <h3>Failed Rows</h3>
+      <div id="failedWrap"></div>
+      <h3>Skipped Rows</h3>
+      <div id="skippedWrap"></div>
+      <h3>Conflicts</h3>
+      <div id="conflictWrap"></div>
+    </div>
+  </div>
+
+  <script src="/inventory/history-ui.js"></script>
+</body>
+</html>
+`;
@@ -0,0 +1,19 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { InboxImportsService, InboxFolderSummary } from './inbox-imports.service';
+import { InboxImportsQueryDto } from './inventory.dto';
+import { InboxImport } from './inventory.types';
+
+@Controller('inventory/inbox')
+export class InboxImportsController {
+  constructor(private readonly inboxImportsService: InboxImportsService) {}
+
+  @Get()
+  listFolders(): InboxFolderSummary[] {
+    return this.inboxImportsService.listFolders();
+  }
+
+  @Get('imports')
+  listImports(@Query() query: InboxImportsQueryDto): Promise<InboxImport[]> {
+    return this.inboxImportsService.listImports(query);
+  }
+}
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { AppConfig, InboxFolderConfig } from '../config/shopify.config';
+import { FileStoreService } from '../services/file-store.service';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { InboxImportsService } from './inbox-imports.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import { InventoryReportService } from './inventory-report.service';
+import { InventoryJob, InventorySyncSummary, ResultRow } from './inventory.types';
+import { MappingProfilesService } from './mapping-profiles.service';
+
+const CONTENT = 'SKU,Location,Quantity\nTEE-BLK-M,Main Warehouse,12\n';
+
+const summaryWith = (updated: number): InventorySyncSummary => ({
+  updated: Array.from({ length: updated }, (_, index) => ({ rowNumber: index + 2 }) as ResultRow),
+  failed: [],
+  skipped: [],
+  conflict: [],
+});
+
+describe('InboxImportsService', () => {
+  let root: string;
+  let folder: InboxFolderConfig;
+  let fileStore: FileStoreService;
+  let startUpload: jest.Mock;
+  let finishedJob: Partial<InventoryJob>;
+  let service: InboxImportsService;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(tmpdir(), 'inbox-spec-'));
+    folder = {
+      name: 'erp',
+      path: path.join(root, 'inbox'),
+      store: '',
+      profile: '',
+      mode: 'set',
+    };
+    await fs.mkdir(folder.path);
+
+    const config = {
+      dataDir: path.join(root, 'data'),
+      inbox: { folders: [folder], pollIntervalMs: 60_000, settleMs: 0 },
+    } as unknown as AppConfig;
+    fileStore = new FileStoreService(config);
+
+    let jobCount = 0;
+    finishedJob = { status: 'completed', summary: summaryWith(1) };
+    startUpload = jest.fn(() => ({ id: `job-${++jobCount}` }));
+    const jobsService = {
+      startUpload,
+      waitForJob: jest.fn(async (id: string) => ({ id, ...finishedJob })),
+    } as unknown as InventoryJobsService;
+
+    service = new InboxImportsService(
+      config,
+      fileStore,
+      jobsService,
+      {
+        get: jest.fn().mockResolvedValue({ name: 'default' }),
+      } as unknown as MappingProfilesService,
+      {
+        buildSummaryReport: jest.fn().mockResolvedValue({ content: Buffer.from('report') }),
+      } as unknown as InventoryReportService,
+      { get: () => ({ storeName: 'default' }) } as unknown as ShopifyStoresService,
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  // Backdated so the file counts as settled whatever the file system's timestamp precision.
+  const drop = async (fileName: string): Promise<void> => {
+    const file = path.join(folder.path, fileName);
+    await fs.writeFile(file, CONTENT);
+    const settled = new Date(Date.now() - 60_000);
+    await fs.utimes(file, settled, settled);
+    await service.scan();
+  };
+
+  const statusOf = async (fileName: string) =>
+    (await service.listImports()).find((entry) => entry.fileName === fileName);
+
+  it('rejects the same content again, even under another name', async () => {
+    await drop('stock.csv');
+    await drop('stock-copy.csv');
+
+    expect(startUpload).toHaveBeenCalledTimes(1);
+    expect(await statusOf('stock-copy.csv')).toEqual(
+      expect.objectContaining({
+        status: 'duplicate',
+        reason: expect.stringContaining('Same content as stock.csv'),
+      }),
+    );
+  });
+
+  it('still catches duplicates after their log entries were dropped', async () => {
+    await drop('stock.csv');
+    await fileStore.writeJson('inbox/imports.json', []);
+    await drop('stock-again.csv');
+
+    expect(startUpload).toHaveBeenCalledTimes(1);
+    expect((await statusOf('stock-again.csv'))?.status).toBe('duplicate');
+  });
+
+  it('releases a file whose job failed without writing anything', async () => {
+    finishedJob = { status: 'failed', error: 'Shopify unavailable', summary: summaryWith(0) };
+    await drop('stock.csv');
+
+    expect(await statusOf('stock.csv')).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        reason: expect.stringContaining('can be dropped in again'),
+      }),
+    );
+
+    finishedJob = { status: 'completed', summary: summaryWith(1) };
+    await drop('stock-retry.csv');
+
+    expect(startUpload).toHaveBeenCalledTimes(2);
+    expect((await statusOf('stock-retry.csv'))?.status).toBe('done');
+  });
+
+  it('keeps the claim when a failed job had already written rows', async () => {
+    finishedJob = { status: 'failed', error: 'Shopify unavailable', summary: summaryWith(2) };
+    await drop('stock.csv');
+    await drop('stock-retry.csv');
+
+    expect(startUpload).toHaveBeenCalledTimes(1);
+    expect((await statusOf('stock-retry.csv'))?.status).toBe('duplicate');
+  });
+});
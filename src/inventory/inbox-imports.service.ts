@@ -0,0 +1,331 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AppConfig, appConfig, InboxConfig, InboxFolderConfig } from '../config/shopify.config';
+import { FileStoreService } from '../services/file-store.service';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { countSummary } from './inventory-history.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import { InventoryReportService } from './inventory-report.service';
+import { DEFAULT_PROFILE_NAME, MappingProfilesService } from './mapping-profiles.service';
+import { InboxImport, InboxImportStatus, InventoryJob } from './inventory.types';
+
+const IMPORTS_FILE = 'inbox/imports.json';
+// Newest imports kept in the log; older ones are dropped.
+const MAX_LOGGED_IMPORTS = 1000;
+// Every file content ever applied, keyed by store and hash. Never truncated, so duplicates
+// are still caught after their log entries have been dropped.
+const APPLIED_FILE = 'inbox/applied.json';
+const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+const DONE_DIR = 'done';
+const FAILED_DIR = 'failed';
+
+export interface InboxFolderSummary extends InboxFolderConfig {
+  // Absolute path being watched.
+  directory: string;
+}
+
+export interface InboxImportFilters {
+  folder?: string;
+  status?: InboxImportStatus;
+}
+
+interface AppliedInboxFile {
+  fileName: string;
+  detectedAt: string;
+  jobId?: string;
+}
+
+// Imports spreadsheets dropped into the configured inbox folders through the same job
+// pipeline as uploads. Folders are polled rather than watched with fs.watch, which misses
+// changes on network shares. Files are imported one at a time, oldest first.
+@Injectable()
+export class InboxImportsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(InboxImportsService.name);
+  private readonly config: InboxConfig;
+  private timer?: NodeJS.Timeout;
+  private scanning = false;
+
+  constructor(
+    @Inject(appConfig.KEY) config: AppConfig,
+    private readonly fileStore: FileStoreService,
+    private readonly jobsService: InventoryJobsService,
+    private readonly mappingProfilesService: MappingProfilesService,
+    private readonly reportService: InventoryReportService,
+    private readonly shopifyStores: ShopifyStoresService,
+  ) {
+    this.config = config.inbox;
+  }
+
+  onModuleInit(): void {
+    if (!this.config.folders.length) {
+      return;
+    }
+
+    this.listFolders().forEach((folder) => {
+      this.logger.log(`Watching inbox "${folder.name}" at ${folder.directory}`);
+    });
+    this.timer = setInterval(() => void this.scan(), this.config.pollIntervalMs);
+    void this.scan();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  listFolders(): InboxFolderSummary[] {
+    return this.config.folders.map((folder) => ({
+      ...folder,
+      directory: path.resolve(folder.path),
+    }));
+  }
+
+  async listImports(filters: InboxImportFilters = {}): Promise<InboxImport[]> {
+    const imports = await this.fileStore.readJson<InboxImport[]>(IMPORTS_FILE, []);
+    return imports.filter(
+      (entry) =>
+        (!filters.folder || entry.folder.toLowerCase() === filters.folder.toLowerCase()) &&
+        (!filters.status || entry.status === filters.status),
+    );
+  }
+
+  // Overlapping polls are skipped while a long import is still running.
+  async scan(): Promise<void> {
+    if (this.scanning) {
+      return;
+    }
+
+    this.scanning = true;
+    try {
+      for (const folder of this.config.folders) {
+        try {
+          for (const fileName of await this.readyFiles(folder)) {
+            await this.importFile(folder, fileName);
+          }
+        } catch (error: unknown) {
+          this.logger.error(`Could not scan inbox "${folder.name}": ${describeError(error)}`);
+        }
+      }
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  // Supported files that have stopped changing, oldest first so hourly exports apply in order.
+  private async readyFiles(folder: InboxFolderConfig): Promise<string[]> {
+    const entries = await fs.readdir(folder.path, { withFileTypes: true });
+    const candidates = entries.filter(
+      (entry) =>
+        entry.isFile() &&
+        // Skip hidden files and the lock files Excel leaves next to open workbooks.
+        !entry.name.startsWith('.') &&
+        !entry.name.startsWith('~$') &&
+        SUPPORTED_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()),
+    );
+
+    const now = Date.now();
+    const stats = await Promise.all(
+      candidates.map(async (entry) => ({
+        name: entry.name,
+        modifiedAt: (await fs.stat(path.join(folder.path, entry.name))).mtimeMs,
+      })),
+    );
+
+    return stats
+      .filter((file) => now - file.modifiedAt >= this.config.settleMs)
+      .sort((a, b) => a.modifiedAt - b.modifiedAt)
+      .map((file) => file.name);
+  }
+
+  private async importFile(folder: InboxFolderConfig, fileName: string): Promise<void> {
+    const source = path.join(folder.path, fileName);
+    const buffer = await fs.readFile(source);
+    const entry: InboxImport = {
+      id: randomUUID(),
+      folder: folder.name,
+      fileName,
+      fileHash: createHash('sha256').update(buffer).digest('hex'),
+      store: '',
+      status: 'importing',
+      detectedAt: new Date().toISOString(),
+    };
+
+    let job: InventoryJob;
+    let claimed = false;
+    try {
+      entry.store = this.shopifyStores.get(folder.store).storeName;
+      const applied = await this.fileStore.readJson<Record<string, AppliedInboxFile>>(
+        APPLIED_FILE,
+        {},
+      );
+      const previous = applied[appliedKey(entry)];
+      if (previous) {
+        await this.finish(folder, entry, 'duplicate', {
+          reason:
+            `Same content as ${previous.fileName}, already imported on ${previous.detectedAt}` +
+            (previous.jobId ? ` (job ${previous.jobId})` : ''),
+        });
+        return;
+      }
+
+      const mappingProfile = await this.mappingProfilesService.get(
+        folder.profile || DEFAULT_PROFILE_NAME,
+      );
+
+      // Claimed before the job starts, so a restart mid-import cannot apply the file again.
+      // Files rejected before this point, e.g. for an unknown mapping profile, can be
+      // dropped in again; so can files whose job failed without writing anything.
+      await this.saveApplied(entry);
+      claimed = true;
+      await this.saveImport(entry);
+      const started = this.jobsService.startUpload(buffer, fileName, {
+        store: entry.store,
+        mappingProfile,
+        quantityMode: folder.mode,
+        user: `${folder.name} (inbox)`,
+      });
+      entry.jobId = started.id;
+      await this.saveApplied(entry);
+      await this.saveImport(entry);
+      this.logger.log(`Importing ${fileName} from inbox "${folder.name}" as job ${started.id}`);
+
+      job = await this.jobsService.waitForJob(started.id);
+    } catch (error: unknown) {
+      // Without a job nothing was written; with one, what it wrote is unknown.
+      const released = claimed && !entry.jobId && (await this.releaseApplied(entry));
+      await this.finish(folder, entry, 'failed', {
+        reason: released ? withDropAgainNote(describeError(error)) : describeError(error),
+      });
+      return;
+    }
+
+    if (job.status === 'completed') {
+      await this.finish(folder, entry, 'done', { job });
+      return;
+    }
+
+    const released = job.summary.updated.length === 0 && (await this.releaseApplied(entry));
+    await this.finish(folder, entry, 'failed', {
+      reason: released ? withDropAgainNote(job.error ?? 'Job failed') : job.error,
+      job,
+    });
+  }
+
+  // Moves the file to done/ or failed/ with a timestamp prefix (exports often reuse one
+  // name) and writes the job report and the import record next to it.
+  private async finish(
+    folder: InboxFolderConfig,
+    entry: InboxImport,
+    status: Exclude<InboxImportStatus, 'importing'>,
+    outcome: { reason?: string; job?: InventoryJob },
+  ): Promise<void> {
+    const subfolder = status === 'done' ? DONE_DIR : FAILED_DIR;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const baseName = `${stamp}-${entry.fileName}`;
+    const targetDir = path.join(folder.path, subfolder);
+
+    entry.status = status;
+    entry.finishedAt = new Date().toISOString();
+    if (outcome.reason) {
+      entry.reason = outcome.reason;
+    }
+    if (outcome.job) {
+      entry.counts = countSummary(outcome.job.summary);
+    }
+
+    try {
+      await fs.mkdir(targetDir, { recursive: true });
+      await fs.rename(path.join(folder.path, entry.fileName), path.join(targetDir, baseName));
+      entry.movedTo = `${subfolder}/${baseName}`;
+
+      if (outcome.job) {
+        const report = await this.reportService.buildSummaryReport(outcome.job.id, 'xlsx');
+        await fs.writeFile(path.join(targetDir, `${baseName}.report.xlsx`), report.content);
+      }
+      await fs.writeFile(
+        path.join(targetDir, `${baseName}.result.json`),
+        JSON.stringify(entry, null, 2),
+        'utf8',
+      );
+    } catch (error: unknown) {
+      this.logger.error(
+        `Could not move ${entry.fileName} in inbox "${folder.name}": ${describeError(error)}`,
+      );
+    }
+
+    await this.saveImport(entry).catch((error: unknown) =>
+      this.logger.error(`Could not record inbox import ${entry.id}: ${describeError(error)}`),
+    );
+
+    const message = `Inbox "${folder.name}": ${entry.fileName} ${status}`;
+    if (status === 'done') {
+      this.logger.log(message);
+    } else {
+      this.logger.warn(entry.reason ? `${message}: ${entry.reason}` : message);
+    }
+  }
+
+  private async saveApplied(entry: InboxImport): Promise<void> {
+    await this.fileStore.updateJson<Record<string, AppliedInboxFile>>(
+      APPLIED_FILE,
+      {},
+      (applied) => ({
+        ...applied,
+        [appliedKey(entry)]: {
+          fileName: entry.fileName,
+          detectedAt: entry.detectedAt,
+          ...(entry.jobId ? { jobId: entry.jobId } : {}),
+        },
+      }),
+    );
+  }
+
+  // Forgets a claimed file so the same content can be dropped in again. False when the
+  // claim could not be removed, in which case the file still counts as applied.
+  private async releaseApplied(entry: InboxImport): Promise<boolean> {
+    try {
+      await this.fileStore.updateJson<Record<string, AppliedInboxFile>>(
+        APPLIED_FILE,
+        {},
+        (applied) => {
+          const { [appliedKey(entry)]: _released, ...kept } = applied;
+          return kept;
+        },
+      );
+      return true;
+    } catch (error: unknown) {
+      this.logger.error(`Could not release inbox file ${entry.fileName}: ${describeError(error)}`);
+      return false;
+    }
+  }
+
+  private async saveImport(entry: InboxImport): Promise<void> {
+    await this.fileStore.updateJson<InboxImport[]>(IMPORTS_FILE, [], (imports) =>
+      [entry, ...imports.filter((existing) => existing.id !== entry.id)].slice(
+        0,
+        MAX_LOGGED_IMPORTS,
+      ),
+    );
+  }
+}
+
+function appliedKey(entry: InboxImport): string {
+  return `${entry.store}:${entry.fileHash}`;
+}
+
+function withDropAgainNote(reason: string): string {
+  return `${reason}; nothing was written, so the file can be dropped in again`;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,116 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { ShopifyInventoryLevel, ShopifyLocation } from '../services/shopify.service';
+import { ReportFile, ReportFormat, toReportFile } from './inventory-report.service';
+import { InventoryExportFilters } from './inventory.types';
+
+// Headers from the default mapping profile, so the file uploads again unchanged.
+// Quantity maps to closingStock, which sets available.
+const EXPORT_HEADERS = [
+  'Handle',
+  'Title',
+  'Option1 Value',
+  'Option2 Value',
+  'Option3 Value',
+  'SKU',
+  'Barcode',
+  'Location',
+  'Quantity',
+];
+
+// Current stock as an upload-compatible template: download, fill in counts, upload.
+@Injectable()
+export class InventoryExportService {
+  private readonly logger = new Logger(InventoryExportService.name);
+
+  constructor(private readonly shopifyStores: ShopifyStoresService) {}
+
+  async exportInventory(
+    filters: InventoryExportFilters,
+    format: ReportFormat,
+  ): Promise<ReportFile> {
+    const shopify = this.shopifyStores.get(filters.store);
+    const locations = this.selectLocations(await shopify.getLocations(), filters.locations);
+    const collectionProducts = filters.collection
+      ? await shopify.getCollectionProductIds(filters.collection)
+      : undefined;
+    if (collectionProducts === null) {
+      throw new BadRequestException(`Collection "${filters.collection}" not found`);
+    }
+
+    const rows: Array<Record<string, unknown>> = [];
+    for (const location of locations) {
+      const levels = (await shopify.getLocationInventoryLevels(location.id))
+        .filter((level) => this.matches(level, filters, collectionProducts))
+        .sort(
+          (a, b) =>
+            a.productHandle.localeCompare(b.productHandle) || a.sku.localeCompare(b.sku),
+        );
+      levels.forEach((level) => rows.push(this.toRow(level, location)));
+    }
+
+    this.logger.log(
+      `Exported ${rows.length} inventory rows from ${shopify.storeName} (${locations.length} locations)`,
+    );
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.json_to_sheet(rows, { header: EXPORT_HEADERS }),
+      'Inventory',
+    );
+    const date = new Date().toISOString().slice(0, 10);
+    return toReportFile(workbook, `inventory-${shopify.storeName}-${date}`, format);
+  }
+
+  // Unknown location names are a client error, listing the valid ones.
+  private selectLocations(all: ShopifyLocation[], names: string[] = []): ShopifyLocation[] {
+    if (!names.length) {
+      return all;
+    }
+
+    return names.map((name) => {
+      const location = all.find(
+        (candidate) => candidate.name.trim().toLowerCase() === name.trim().toLowerCase(),
+      );
+      if (!location) {
+        throw new BadRequestException(
+          `Unknown location "${name}". Locations: ${all.map((item) => item.name).join(', ')}`,
+        );
+      }
+
+      return location;
+    });
+  }
+
+  private matches(
+    level: ShopifyInventoryLevel,
+    filters: InventoryExportFilters,
+    collectionProducts?: Set<string>,
+  ): boolean {
+    const same = (value: string, wanted?: string): boolean =>
+      !wanted || value.trim().toLowerCase() === wanted.trim().toLowerCase();
+
+    return (
+      same(level.vendor, filters.vendor) &&
+      same(level.productType, filters.productType) &&
+      (!collectionProducts || collectionProducts.has(level.productId))
+    );
+  }
+
+  private toRow(level: ShopifyInventoryLevel, location: ShopifyLocation): Record<string, unknown> {
+    const [option1 = '', option2 = '', option3 = ''] = level.optionValues;
+    return {
+      Handle: level.productHandle,
+      Title: level.productTitle,
+      'Option1 Value': option1,
+      'Option2 Value': option2,
+      'Option3 Value': option3,
+      SKU: level.sku,
+      Barcode: level.barcode,
+      Location: location.name,
+      Quantity: level.available ?? '',
+    };
+  }
+}
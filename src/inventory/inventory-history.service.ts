@@ -0,0 +1,91 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { FileStoreService } from '../services/file-store.service';
+import {
+  InventoryJob,
+  InventorySyncSummary,
+  SyncHistoryEntry,
+  SyncHistoryRecord,
+} from './inventory.types';
+
+const HISTORY_INDEX = 'history/index.json';
+
+@Injectable()
+export class InventoryHistoryService {
+  private readonly logger = new Logger(InventoryHistoryService.name);
+
+  constructor(private readonly fileStore: FileStoreService) {}
+
+  async recordJob(job: InventoryJob): Promise<SyncHistoryRecord> {
+    const { summary } = job;
+    const counts = countSummary(summary);
+
+    const entry: SyncHistoryEntry = {
+      id: job.id,
+      kind: job.kind,
+      ...(job.rollbackOf ? { rollbackOf: job.rollbackOf } : {}),
+      store: job.store,
+      ...(job.fanOutId ? { fanOutId: job.fanOutId } : {}),
+      fileName: job.fileName,
+      fileHash: job.fileHash,
+      mappingProfile: job.mappingProfile,
+      dryRun: job.dryRun,
+      quantityMode: job.quantityMode,
+      ...(job.user ? { user: job.user } : {}),
+      status: job.status,
+      ...(job.error ? { error: job.error } : {}),
+      startedAt: job.startedAt ?? job.createdAt,
+      finishedAt: job.finishedAt ?? new Date().toISOString(),
+      // Every file row lands in exactly one bucket.
+      rowCount:
+        counts.updated + counts.failed + counts.skipped + counts.conflict + counts.planned,
+      counts,
+    };
+    const record: SyncHistoryRecord = { ...entry, summary };
+
+    await this.fileStore.writeJson(this.recordPath(job.id), record);
+    await this.fileStore.updateJson<SyncHistoryEntry[]>(HISTORY_INDEX, [], (entries) => [
+      entry,
+      ...entries.filter((existing) => existing.id !== entry.id),
+    ]);
+
+    this.logger.log(`Recorded history for job ${job.id} (${job.fileName})`);
+    return record;
+  }
+
+  async list(): Promise<SyncHistoryEntry[]> {
+    return this.fileStore.readJson<SyncHistoryEntry[]>(HISTORY_INDEX, []);
+  }
+
+  async get(id: string): Promise<SyncHistoryRecord> {
+    const record = await this.fileStore.readJson<SyncHistoryRecord | null>(
+      this.recordPath(id),
+      null,
+    );
+    if (!record) {
+      throw new NotFoundException(`History record ${id} not found`);
+    }
+
+    return record;
+  }
+
+  private recordPath(id: string): string {
+    // Ids are server-generated UUIDs; reject anything else before touching the filesystem.
+    if (!/^[a-zA-Z0-9-]+$/.test(id)) {
+      throw new NotFoundException(`History record ${id} not found`);
+    }
+
+    return `history/${id}.json`;
+  }
+}
+
+export function countSummary(
+  summary: InventorySyncSummary,
+): Required<SyncHistoryEntry['counts']> {
+  return {
+    updated: summary.updated.length,
+    failed: summary.failed.length,
+    skipped: summary.skipped.length,
+    conflict: summary.conflict.length,
+    planned: summary.planned?.length ?? 0,
+  };
+}
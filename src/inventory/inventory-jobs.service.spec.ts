@@ -0,0 +1,87 @@
+import { InventoryHistoryService } from './inventory-history.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import { InventoryRollbackService } from './inventory-rollback.service';
+import { InventoryService } from './inventory.service';
+import { InventoryJob, InventoryJobEvent, InventorySyncSummary } from './inventory.types';
+import { JobWebhooksService } from './job-webhooks.service';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+
+const emptySummary = (): InventorySyncSummary => ({
+  updated: [],
+  failed: [],
+  skipped: [],
+  conflict: [],
+});
+
+describe('InventoryJobsService', () => {
+  let processUpload: jest.Mock;
+  let recordJob: jest.Mock;
+  let notifyJobFinished: jest.Mock;
+  let service: InventoryJobsService;
+
+  beforeEach(() => {
+    processUpload = jest.fn().mockResolvedValue(emptySummary());
+    recordJob = jest.fn().mockResolvedValue(undefined);
+    notifyJobFinished = jest.fn();
+    service = new InventoryJobsService(
+      { processUpload } as unknown as InventoryService,
+      { recordJob } as unknown as InventoryHistoryService,
+      {} as InventoryRollbackService,
+      { get: () => ({ storeName: 'default' }) } as unknown as ShopifyStoresService,
+      { notifyJobFinished } as unknown as JobWebhooksService,
+    );
+  });
+
+  const runUpload = async (): Promise<{ job: InventoryJob; events: InventoryJobEvent[] }> => {
+    const started = service.startUpload(Buffer.from('SKU,Quantity\nA,1\n'), 'stock.csv', {});
+    const events: InventoryJobEvent[] = [];
+    service.streamJob(started.id).subscribe((event) => events.push(event));
+    return { job: await service.waitForJob(started.id), events };
+  };
+
+  it('writes history before the job reports completed', async () => {
+    const seenWhileRecording: string[] = [];
+    recordJob.mockImplementation(async (recorded: InventoryJob) => {
+      seenWhileRecording.push(service.getJob(recorded.id).status);
+    });
+
+    const { job, events } = await runUpload();
+
+    expect(seenWhileRecording).toEqual(['running']);
+    expect(recordJob).toHaveBeenCalledWith(expect.objectContaining({ status: 'completed' }));
+    expect(job.status).toBe('completed');
+    expect(events.filter((event) => event.type === 'status').pop()).toEqual({
+      type: 'status',
+      status: 'completed',
+    });
+    expect(notifyJobFinished).toHaveBeenCalledWith(job);
+  });
+
+  it('passes the job id to the upload so adjustments can name it as ledger document', async () => {
+    const { job } = await runUpload();
+
+    expect(processUpload).toHaveBeenCalledWith(
+      expect.any(Buffer),
+      expect.objectContaining({ jobId: job.id, store: 'default' }),
+      expect.any(Function),
+    );
+  });
+
+  it('records a failed job with its error before reporting it', async () => {
+    processUpload.mockRejectedValue(new Error('Shopify unavailable'));
+    const seenWhileRecording: string[] = [];
+    recordJob.mockImplementation(async (recorded: InventoryJob) => {
+      seenWhileRecording.push(service.getJob(recorded.id).status);
+    });
+
+    const { job } = await runUpload();
+
+    expect(seenWhileRecording).toEqual(['running']);
+    expect(recordJob).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'failed', error: 'Shopify unavailable' }),
+    );
+    expect(job).toEqual(
+      expect.objectContaining({ status: 'failed', error: 'Shopify unavailable' }),
+    );
+  });
+});
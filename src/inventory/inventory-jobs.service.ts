@@ -0,0 +1,298 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomUUID } from 'crypto';
+import { Observable, Subject, concat, from, lastValueFrom } from 'rxjs';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { InventoryHistoryService } from './inventory-history.service';
+import { InventoryRollbackService } from './inventory-rollback.service';
+import { InventoryService } from './inventory.service';
+import { JobWebhooksService } from './job-webhooks.service';
+import { DEFAULT_PROFILE_NAME } from './mapping-profiles.service';
+import {
+  InventoryJob,
+  InventoryJobEvent,
+  InventoryJobStatus,
+  InventorySyncEvent,
+  InventorySyncSummary,
+  UploadOptions,
+} from './inventory.types';
+
+type JobRunner = (
+  onEvent: (event: InventorySyncEvent) => void,
+  jobId: string,
+) => Promise<InventorySyncSummary>;
+
+interface TrackedJob {
+  job: InventoryJob;
+  events: Subject<InventoryJobEvent>;
+}
+
+// Finished jobs are kept in memory for polling/streaming; oldest are pruned first.
+const MAX_RETAINED_JOBS = 100;
+
+@Injectable()
+export class InventoryJobsService {
+  private readonly logger = new Logger(InventoryJobsService.name);
+  private readonly jobs = new Map<string, TrackedJob>();
+
+  constructor(
+    private readonly inventoryService: InventoryService,
+    private readonly historyService: InventoryHistoryService,
+    private readonly rollbackService: InventoryRollbackService,
+    private readonly shopifyStores: ShopifyStoresService,
+    private readonly webhooks: JobWebhooksService,
+  ) {}
+
+  startUpload(buffer: Buffer, fileName: string, options: UploadOptions): InventoryJob {
+    const store = this.shopifyStores.get(options.store).storeName;
+    return this.startJob(
+      {
+        kind: 'upload',
+        store,
+        ...(options.fanOutId ? { fanOutId: options.fanOutId } : {}),
+        fileName,
+        fileHash: createHash('sha256').update(buffer).digest('hex'),
+        mappingProfile: options.mappingProfile?.name ?? DEFAULT_PROFILE_NAME,
+        dryRun: options.dryRun === true,
+        quantityMode: options.quantityMode ?? 'set',
+        ...(options.user ? { user: options.user } : {}),
+      },
+      (onEvent, jobId) =>
+        this.inventoryService.processUpload(buffer, { ...options, store, jobId }, onEvent),
+    );
+  }
+
+  // One job per store, each with its own summary and history record.
+  startFanOut(
+    buffer: Buffer,
+    fileName: string,
+    stores: string[],
+    options: UploadOptions,
+  ): InventoryJob[] {
+    const names = [...new Set(stores.map((name) => this.shopifyStores.get(name).storeName))];
+    if (names.length === 1) {
+      return [this.startUpload(buffer, fileName, { ...options, store: names[0] })];
+    }
+
+    const fanOutId = randomUUID();
+    return names.map((store) =>
+      this.startUpload(buffer, fileName, { ...options, store, fanOutId }),
+    );
+  }
+
+  async startRollback(historyId: string, user?: string): Promise<InventoryJob> {
+    const record = await this.historyService.get(historyId);
+    if (record.dryRun) {
+      throw new BadRequestException('Dry-run uploads did not change Shopify; nothing to roll back');
+    }
+
+    if (!record.summary.updated.length) {
+      throw new BadRequestException('Upload has no updated rows to roll back');
+    }
+
+    return this.startJob(
+      {
+        kind: 'rollback',
+        rollbackOf: record.id,
+        store: this.shopifyStores.get(record.store).storeName,
+        fileName: record.fileName,
+        fileHash: record.fileHash,
+        mappingProfile: record.mappingProfile,
+        dryRun: false,
+        // A rollback sets each item back to its previous absolute quantity.
+        quantityMode: 'set',
+        ...(user ? { user } : {}),
+      },
+      (onEvent, jobId) => this.rollbackService.rollback(record, onEvent, jobId),
+    );
+  }
+
+  getJob(id: string): InventoryJob {
+    return this.getTrackedJob(id).job;
+  }
+
+  // Resolves once the job has finished and its history record is written.
+  async waitForJob(id: string): Promise<InventoryJob> {
+    const { job, events } = this.getTrackedJob(id);
+    await lastValueFrom(events, { defaultValue: undefined });
+    return job;
+  }
+
+  // Replays the current job state first so late subscribers can render from scratch.
+  streamJob(id: string): Observable<InventoryJobEvent> {
+    const { job, events } = this.getTrackedJob(id);
+    const replay: InventoryJobEvent[] = [
+      { type: 'status', status: job.status, ...(job.error ? { error: job.error } : {}) },
+      { type: 'phase', phase: job.phase },
+    ];
+
+    (['updated', 'failed', 'skipped', 'conflict'] as const).forEach((bucket) => {
+      job.summary[bucket].forEach((row) => replay.push({ type: 'row', bucket, row }));
+    });
+    job.summary.planned?.forEach((row) => replay.push({ type: 'planned', row }));
+
+    if (job.totalRows > 0) {
+      replay.push({
+        type: 'progress',
+        phase: job.phase,
+        processed: job.processedRows,
+        total: job.totalRows,
+      });
+    }
+
+    return concat(from(replay), events.asObservable());
+  }
+
+  private startJob(
+    init: Pick<
+      InventoryJob,
+      | 'kind'
+      | 'rollbackOf'
+      | 'store'
+      | 'fanOutId'
+      | 'fileName'
+      | 'fileHash'
+      | 'mappingProfile'
+      | 'dryRun'
+      | 'quantityMode'
+      | 'user'
+    >,
+    run: JobRunner,
+  ): InventoryJob {
+    const job: InventoryJob = {
+      id: randomUUID(),
+      ...init,
+      status: 'queued',
+      phase: 'queued',
+      processedRows: 0,
+      totalRows: 0,
+      createdAt: new Date().toISOString(),
+      summary: {
+        updated: [],
+        failed: [],
+        skipped: [],
+        conflict: [],
+        ...(init.dryRun ? { planned: [] } : {}),
+      },
+    };
+
+    const tracked: TrackedJob = { job, events: new Subject<InventoryJobEvent>() };
+    this.jobs.set(job.id, tracked);
+    this.pruneFinishedJobs();
+
+    // Run detached: the HTTP request returns the job id immediately.
+    setImmediate(() => {
+      void this.runJob(tracked, run);
+    });
+
+    return job;
+  }
+
+  private async runJob(tracked: TrackedJob, run: JobRunner): Promise<void> {
+    const { job } = tracked;
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.emit(tracked, { type: 'status', status: 'running' });
+
+    let status: InventoryJobStatus = 'completed';
+    let failure: string | undefined;
+    try {
+      job.summary = await run((event) => this.applySyncEvent(tracked, event), job.id);
+    } catch (error: unknown) {
+      status = 'failed';
+      failure = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Job ${job.id} failed: ${failure}`);
+    }
+
+    // The job shows as finished only once its history record is written, so a client that
+    // sees "completed" can open the record and its reports straight away.
+    const finishedAt = new Date().toISOString();
+    await this.recordHistory({
+      ...job,
+      status,
+      finishedAt,
+      ...(failure ? { error: failure } : {}),
+    });
+    job.status = status;
+    job.finishedAt = finishedAt;
+    if (failure) {
+      job.error = failure;
+    }
+
+    if (job.status === 'completed') {
+      this.emit(tracked, { type: 'phase', phase: 'done' });
+      this.emit(tracked, { type: 'status', status: 'completed' });
+    } else {
+      this.emit(tracked, { type: 'status', status: 'failed', error: job.error });
+    }
+    this.webhooks.notifyJobFinished(job);
+    tracked.events.complete();
+  }
+
+  private async recordHistory(job: InventoryJob): Promise<void> {
+    try {
+      await this.historyService.recordJob(job);
+    } catch (error: unknown) {
+      this.logger.error(
+        `Could not record history for job ${job.id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  private applySyncEvent(tracked: TrackedJob, event: InventorySyncEvent): void {
+    const { job } = tracked;
+
+    if (event.type === 'phase') {
+      job.phase = event.phase;
+    } else if (event.type === 'progress') {
+      job.processedRows = event.processed;
+      job.totalRows = event.total;
+    } else if (event.type === 'planned') {
+      // Real uploads only plan when refused over the change limit.
+      (job.summary.planned ??= []).push(event.row);
+    } else {
+      job.summary[event.bucket].push(event.row);
+    }
+
+    tracked.events.next(event);
+  }
+
+  private emit(tracked: TrackedJob, event: InventoryJobEvent): void {
+    if (event.type === 'phase') {
+      tracked.job.phase = event.phase;
+    }
+
+    tracked.events.next(event);
+  }
+
+  private getTrackedJob(id: string): TrackedJob {
+    const tracked = this.jobs.get(id);
+    if (!tracked) {
+      throw new NotFoundException(`Job ${id} not found`);
+    }
+
+    return tracked;
+  }
+
+  private pruneFinishedJobs(): void {
+    if (this.jobs.size <= MAX_RETAINED_JOBS) {
+      return;
+    }
+
+    for (const [id, tracked] of this.jobs) {
+      if (this.jobs.size <= MAX_RETAINED_JOBS) {
+        break;
+      }
+
+      if (tracked.job.status === 'completed' || tracked.job.status === 'failed') {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
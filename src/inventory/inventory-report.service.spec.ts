@@ -0,0 +1,64 @@
+import { InventoryHistoryService } from './inventory-history.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import { InventoryReportService } from './inventory-report.service';
+import { InventoryJob, QuantityMode, ResultRow } from './inventory.types';
+
+const failedRow = (sourceRow: Record<string, unknown>): ResultRow => ({
+  rowNumber: 2,
+  sku: 'TEE-BLK-M',
+  itemName: 'Classic Tee',
+  locationName: 'Main Warehouse',
+  quantity: 12,
+  reason: 'Could not resolve variant in Shopify',
+  sourceRow,
+});
+
+describe('InventoryReportService', () => {
+  let job: Partial<InventoryJob>;
+  let service: InventoryReportService;
+
+  beforeEach(() => {
+    service = new InventoryReportService(
+      { getJob: () => job } as unknown as InventoryJobsService,
+      {} as InventoryHistoryService,
+    );
+  });
+
+  const failedRowsHeader = async (
+    quantityMode: QuantityMode,
+    sourceRow: Record<string, unknown>,
+  ): Promise<string> => {
+    job = {
+      status: 'completed',
+      fileName: 'stock.csv',
+      quantityMode,
+      summary: { updated: [], failed: [failedRow(sourceRow)], skipped: [], conflict: [] },
+    };
+    const report = await service.buildFailedRowsExport('job-1', 'csv');
+    return report.content.toString('utf8').split('\n')[0];
+  };
+
+  describe('buildFailedRowsExport', () => {
+    it('adds the failure as a Reason column', async () => {
+      const header = await failedRowsHeader('set', { SKU: 'TEE-BLK-M', Quantity: 12 });
+
+      expect(header).toBe('SKU,Quantity,Reason');
+    });
+
+    it('uses Failure Reason in adjust mode, where Reason is the reason code', async () => {
+      const header = await failedRowsHeader('adjust', { SKU: 'TEE-BLK-M', Adjustment: 2 });
+
+      expect(header).toBe('SKU,Adjustment,Failure Reason');
+    });
+
+    it('keeps a Reason column the file already has', async () => {
+      const header = await failedRowsHeader('set', {
+        SKU: 'TEE-BLK-M',
+        Quantity: 12,
+        Reason: 'recount',
+      });
+
+      expect(header).toBe('SKU,Quantity,Reason,Failure Reason');
+    });
+  });
+});
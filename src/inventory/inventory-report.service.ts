@@ -0,0 +1,278 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { sourceRowKey } from '../services/excel.service';
+import { InventoryHistoryService } from './inventory-history.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import {
+  InventorySyncSummary,
+  PlannedChange,
+  QuantityMode,
+  ResultBucket,
+  ResultRow,
+} from './inventory.types';
+
+export type ReportFormat = 'xlsx' | 'csv';
+
+export interface ReportFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export const REASON_COLUMN = 'Reason';
+// "Reason" is also the adjust-mode reason code column, so adjust-mode exports (and files
+// that already have a Reason column) use this instead.
+export const FAILURE_REASON_COLUMN = 'Failure Reason';
+
+const CONTENT_TYPES: Record<ReportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+};
+
+const BUCKET_SHEETS: Array<[ResultBucket, string]> = [
+  ['updated', 'Updated'],
+  ['failed', 'Failed'],
+  ['skipped', 'Skipped'],
+  ['conflict', 'Conflict'],
+];
+
+const RESULT_COLUMNS: Array<[string, (row: ResultRow) => unknown]> = [
+  ['Row', (row) => row.rowNumber],
+  ['Sheet', (row) => row.sheetName],
+  ['SKU', (row) => row.sku],
+  ['Item Name', (row) => row.itemName],
+  ['Location', (row) => row.locationName],
+  ['State', (row) => row.quantityName ?? 'available'],
+  ['Quantity', (row) => row.quantity],
+  ['File Quantity', (row) => row.fileQuantity],
+  ['Allocation Rule', (row) => row.allocationRule],
+  ['Previous Quantity', (row) => row.previousQuantity],
+  ['Expected Quantity', (row) => row.expectedQuantity],
+  ['Live Quantity', (row) => row.liveQuantity],
+  ['Reason', (row) => row.reason],
+  ['Calculation Source', (row) => row.calculationSource],
+  ['Inventory Item ID', (row) => row.inventoryItemId],
+  ['Location ID', (row) => row.locationId],
+];
+
+const PLANNED_COLUMNS: Array<[string, (row: PlannedChange) => unknown]> = [
+  ['Row', (row) => row.rowNumber],
+  ['Sheet', (row) => row.sheetName],
+  ['SKU', (row) => row.sku],
+  ['Item Name', (row) => row.itemName],
+  ['Location', (row) => row.locationName],
+  ['State', (row) => row.quantityName],
+  ['Current Quantity', (row) => row.currentQuantity],
+  ['Target Quantity', (row) => row.targetQuantity],
+  ['File Quantity', (row) => row.fileQuantity],
+  ['Allocation Rule', (row) => row.allocationRule],
+  ['Delta', (row) => row.delta],
+  ['Adjust Reason', (row) => row.adjustReason],
+  ['Calculation Source', (row) => row.calculationSource],
+  ['Inventory Item ID', (row) => row.inventoryItemId],
+  ['Location ID', (row) => row.locationId],
+];
+
+// Spreadsheet exports of a job's outcome, for people who work in Excel rather than the UI.
+@Injectable()
+export class InventoryReportService {
+  constructor(
+    private readonly jobsService: InventoryJobsService,
+    private readonly historyService: InventoryHistoryService,
+  ) {}
+
+  // One sheet per bucket (xlsx), or one table with a Bucket column (csv).
+  async buildSummaryReport(jobId: string, format: ReportFormat): Promise<ReportFile> {
+    const { fileName, summary } = await this.loadFinishedJob(jobId);
+    const workbook = XLSX.utils.book_new();
+
+    if (format === 'csv') {
+      const rows = [
+        ...BUCKET_SHEETS.flatMap(([bucket, label]) =>
+          summary[bucket].map((row) => ({ Bucket: label, ...toRecord(row, RESULT_COLUMNS) })),
+        ),
+        ...(summary.planned ?? []).map((row) => ({
+          Bucket: 'Planned',
+          ...toRecord(row, PLANNED_COLUMNS),
+        })),
+      ];
+      const header = [
+        'Bucket',
+        ...RESULT_COLUMNS.map(([name]) => name),
+        ...(summary.planned ? PLANNED_COLUMNS.map(([name]) => name) : []),
+      ];
+      XLSX.utils.book_append_sheet(
+        workbook,
+        XLSX.utils.json_to_sheet(rows, { header: unique(header) }),
+        'Report',
+      );
+    } else {
+      BUCKET_SHEETS.forEach(([bucket, label]) => {
+        appendSheet(workbook, label, summary[bucket], RESULT_COLUMNS);
+      });
+      if (summary.planned) {
+        appendSheet(workbook, 'Planned', summary.planned, PLANNED_COLUMNS);
+      }
+    }
+
+    return toReportFile(workbook, `${baseName(fileName)}-report`, format);
+  }
+
+  // Failed and conflict rows with the uploaded file's own columns plus a failure reason, so
+  // the file can be corrected and uploaded again as-is.
+  async buildFailedRowsExport(jobId: string, format: ReportFormat): Promise<ReportFile> {
+    const { fileName, summary, quantityMode } = await this.loadFinishedJob(jobId);
+    const rows = collectFailedRows([...summary.failed, ...summary.conflict]);
+    const reasonColumn = chooseReasonColumn(rows, quantityMode);
+    const sheetNames = unique(rows.map((row) => row.sheetName ?? ''));
+    const workbook = XLSX.utils.book_new();
+
+    if (format === 'xlsx' && sheetNames.length > 1) {
+      // Sheet-per-location workbooks keep their tabs, since the tab name can be the location.
+      sheetNames.forEach((sheetName) => {
+        const sheetRows = rows.filter((row) => (row.sheetName ?? '') === sheetName);
+        XLSX.utils.book_append_sheet(
+          workbook,
+          toSourceSheet(sheetRows, false, reasonColumn),
+          sheetName.slice(0, 31),
+        );
+      });
+    } else {
+      XLSX.utils.book_append_sheet(
+        workbook,
+        toSourceSheet(rows, sheetNames.length > 1, reasonColumn),
+        sheetNames.length === 1 && sheetNames[0] ? sheetNames[0].slice(0, 31) : 'Failed rows',
+      );
+    }
+
+    return toReportFile(workbook, `${baseName(fileName)}-failed-rows`, format);
+  }
+
+  // Live jobs first; jobs pruned from memory are read back from history.
+  private async loadFinishedJob(
+    jobId: string,
+  ): Promise<{ fileName: string; summary: InventorySyncSummary; quantityMode?: QuantityMode }> {
+    try {
+      const job = this.jobsService.getJob(jobId);
+      if (job.status === 'queued' || job.status === 'running') {
+        throw new ConflictException(`Job ${jobId} is still ${job.status}`);
+      }
+
+      return job;
+    } catch (error: unknown) {
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+
+    return this.historyService.get(jobId).catch((error: unknown) => {
+      throw error instanceof NotFoundException
+        ? new NotFoundException(`Job ${jobId} not found`)
+        : error;
+    });
+  }
+}
+
+interface FailedSourceRow {
+  sheetName?: string;
+  cells: Record<string, unknown>;
+  reasons: string[];
+}
+
+// One entry per file row: a row failing for several quantity states lists every reason.
+function collectFailedRows(rows: ResultRow[]): FailedSourceRow[] {
+  const byKey = new Map<string, FailedSourceRow>();
+
+  rows.forEach((row) => {
+    const key = sourceRowKey(row.sheetName, row.rowNumber);
+    const existing = byKey.get(key);
+    if (existing) {
+      if (!existing.reasons.includes(row.reason)) {
+        existing.reasons.push(row.reason);
+      }
+      return;
+    }
+
+    byKey.set(key, {
+      sheetName: row.sheetName,
+      // Rows recorded before the original cells were kept (or rollback rows) fall back to
+      // headers the default mapping profile recognises.
+      cells: row.sourceRow ?? {
+        SKU: row.sku,
+        Title: row.itemName,
+        Location: row.locationName,
+        // A re-upload goes through the allocation rules again, so it needs the file value.
+        Quantity: row.fileQuantity ?? row.quantity,
+      },
+      reasons: [row.reason],
+    });
+  });
+
+  return [...byKey.values()];
+}
+
+function chooseReasonColumn(rows: FailedSourceRow[], quantityMode?: QuantityMode): string {
+  const taken = rows.some((row) =>
+    Object.keys(row.cells).some(
+      (column) => column.trim().toLowerCase() === REASON_COLUMN.toLowerCase(),
+    ),
+  );
+  return quantityMode === 'adjust' || taken ? FAILURE_REASON_COLUMN : REASON_COLUMN;
+}
+
+function toSourceSheet(
+  rows: FailedSourceRow[],
+  withSheetColumn: boolean,
+  reasonColumn: string,
+): XLSX.WorkSheet {
+  const columns = unique(rows.flatMap((row) => Object.keys(row.cells)));
+  const header = [...(withSheetColumn ? ['Sheet'] : []), ...columns, reasonColumn];
+  const records = rows.map((row) => ({
+    ...(withSheetColumn ? { Sheet: row.sheetName ?? '' } : {}),
+    ...row.cells,
+    [reasonColumn]: row.reasons.join('; '),
+  }));
+
+  return XLSX.utils.json_to_sheet(records, { header: unique(header) });
+}
+
+function appendSheet<T>(
+  workbook: XLSX.WorkBook,
+  name: string,
+  rows: T[],
+  columns: Array<[string, (row: T) => unknown]>,
+): void {
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.json_to_sheet(
+      rows.map((row) => toRecord(row, columns)),
+      { header: columns.map(([column]) => column) },
+    ),
+    name,
+  );
+}
+
+function toRecord<T>(
+  row: T,
+  columns: Array<[string, (row: T) => unknown]>,
+): Record<string, unknown> {
+  return Object.fromEntries(columns.map(([name, read]) => [name, read(row) ?? '']));
+}
+
+export function toReportFile(workbook: XLSX.WorkBook, name: string, format: ReportFormat): ReportFile {
+  const content =
+    format === 'csv'
+      ? Buffer.from(XLSX.utils.sheet_to_csv(workbook.Sheets[workbook.SheetNames[0]]), 'utf8')
+      : (XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer);
+
+  return { fileName: `${name}.${format}`, contentType: CONTENT_TYPES[format], content };
+}
+
+// Upload file name without its extension, safe for a Content-Disposition header.
+function baseName(fileName: string): string {
+  return fileName.replace(/\.[^.]*$/, '').replace(/[^\w.-]+/g, '_') || 'inventory';
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,143 @@
+import { AppConfig } from '../config/shopify.config';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { InventoryConflictError } from '../services/shopify.errors';
+import { jobLedgerDocumentUri } from '../services/shopify.service';
+import { InventoryRollbackService } from './inventory-rollback.service';
+import { ResultRow, SyncHistoryRecord } from './inventory.types';
+
+const updatedRow = (overrides: Partial<ResultRow> = {}): ResultRow => ({
+  rowNumber: 4,
+  sheetName: 'Downtown',
+  sku: 'TEE-BLK-M',
+  itemName: 'Classic Tee',
+  locationName: 'Downtown Store',
+  quantity: 12,
+  previousQuantity: 8,
+  reason: 'Updated from 8',
+  inventoryItemId: 'gid://shopify/InventoryItem/1',
+  locationId: 'gid://shopify/Location/2',
+  quantityName: 'available',
+  ...overrides,
+});
+
+const historyRecord = (rows: ResultRow[]): SyncHistoryRecord =>
+  ({
+    id: 'upload-1',
+    kind: 'upload',
+    store: 'default',
+    summary: { updated: rows, failed: [], skipped: [], conflict: [] },
+  }) as unknown as SyncHistoryRecord;
+
+describe('InventoryRollbackService', () => {
+  let shopify: {
+    getCurrentInventory: jest.Mock;
+    setInventory: jest.Mock;
+    adjustInventoryQuantities: jest.Mock;
+  };
+  let service: InventoryRollbackService;
+
+  beforeEach(() => {
+    shopify = {
+      getCurrentInventory: jest.fn(),
+      setInventory: jest.fn().mockResolvedValue(undefined),
+      adjustInventoryQuantities: jest.fn().mockResolvedValue([{ ok: true }]),
+    };
+    service = new InventoryRollbackService(
+      { batchSize: 10 } as AppConfig,
+      { get: () => shopify } as unknown as ShopifyStoresService,
+    );
+  });
+
+  it('sets the previous quantity, conditioned on the uploaded value', async () => {
+    shopify.getCurrentInventory.mockResolvedValue(12);
+
+    const summary = await service.rollback(historyRecord([updatedRow()]));
+
+    expect(shopify.setInventory).toHaveBeenCalledWith(
+      'gid://shopify/InventoryItem/1',
+      'gid://shopify/Location/2',
+      8,
+      12,
+      'available',
+    );
+    expect(summary.updated).toEqual([
+      expect.objectContaining({ quantity: 8, previousQuantity: 12, reason: 'Reverted from 12' }),
+    ]);
+  });
+
+  it('adjusts other quantity names with the rollback job as ledger document', async () => {
+    shopify.getCurrentInventory.mockResolvedValue(12);
+
+    const summary = await service.rollback(
+      historyRecord([updatedRow({ quantityName: 'damaged' })]),
+      undefined,
+      'rollback-1',
+    );
+
+    expect(shopify.adjustInventoryQuantities).toHaveBeenCalledWith(
+      'correction',
+      [
+        {
+          inventoryItemId: 'gid://shopify/InventoryItem/1',
+          locationId: 'gid://shopify/Location/2',
+          delta: -4,
+        },
+      ],
+      'damaged',
+      jobLedgerDocumentUri('rollback-1'),
+    );
+    expect(summary.updated).toHaveLength(1);
+  });
+
+  it('reports a conflict without writing when the live quantity moved', async () => {
+    shopify.getCurrentInventory.mockResolvedValue(10);
+
+    const summary = await service.rollback(historyRecord([updatedRow()]));
+
+    expect(shopify.setInventory).not.toHaveBeenCalled();
+    expect(summary.conflict).toEqual([
+      expect.objectContaining({ quantity: 8, expectedQuantity: 12, liveQuantity: 10 }),
+    ]);
+  });
+
+  it('reports the revert target when the compare-and-set write is stale', async () => {
+    shopify.getCurrentInventory.mockResolvedValue(12);
+    shopify.setInventory.mockRejectedValue(new InventoryConflictError('stale'));
+
+    const summary = await service.rollback(historyRecord([updatedRow()]));
+
+    expect(summary.conflict).toEqual([
+      expect.objectContaining({ quantity: 8, expectedQuantity: 12 }),
+    ]);
+  });
+
+  it('skips rows already back at their previous quantity', async () => {
+    shopify.getCurrentInventory.mockResolvedValue(8);
+
+    const summary = await service.rollback(historyRecord([updatedRow()]));
+
+    expect(shopify.setInventory).not.toHaveBeenCalled();
+    expect(summary.skipped).toEqual([
+      expect.objectContaining({ quantity: 8, reason: 'Already at previous quantity' }),
+    ]);
+  });
+
+  it('keeps the sheet of multi-sheet rows in every bucket', async () => {
+    shopify.getCurrentInventory
+      .mockResolvedValueOnce(12)
+      .mockResolvedValueOnce(10)
+      .mockResolvedValueOnce(8);
+
+    const summary = await service.rollback(
+      historyRecord([
+        updatedRow({ rowNumber: 2 }),
+        updatedRow({ rowNumber: 3 }),
+        updatedRow({ rowNumber: 4 }),
+      ]),
+    );
+
+    const rows = [...summary.updated, ...summary.conflict, ...summary.skipped];
+    expect(rows).toHaveLength(3);
+    rows.forEach((row) => expect(row.sheetName).toBe('Downtown'));
+  });
+});
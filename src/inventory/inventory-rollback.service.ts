@@ -0,0 +1,198 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AppConfig, appConfig } from '../config/shopify.config';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import {
+  isSettableQuantityName,
+  jobLedgerDocumentUri,
+  ShopifyService,
+} from '../services/shopify.service';
+import { InventoryConflictError, ShopifyUnavailableError } from '../services/shopify.errors';
+import {
+  InventorySyncEvent,
+  InventorySyncSummary,
+  ResultBucket,
+  ResultRow,
+  SyncHistoryRecord,
+} from './inventory.types';
+
+@Injectable()
+export class InventoryRollbackService {
+  private readonly logger = new Logger(InventoryRollbackService.name);
+  private readonly batchSize: number;
+
+  constructor(
+    @Inject(appConfig.KEY) config: AppConfig,
+    private readonly shopifyStores: ShopifyStoresService,
+  ) {
+    this.batchSize = config.batchSize;
+  }
+
+  // Reverts every updated row of a history record to the quantity it had before the upload.
+  // Rows whose live quantity no longer equals the uploaded value are reported, not overwritten.
+  async rollback(
+    record: SyncHistoryRecord,
+    onEvent: (event: InventorySyncEvent) => void = () => undefined,
+    jobId?: string,
+  ): Promise<InventorySyncSummary> {
+    const summary: InventorySyncSummary = {
+      updated: [],
+      failed: [],
+      skipped: [],
+      conflict: [],
+    };
+    const rows = record.summary.updated;
+    const shopify = this.shopifyStores.get(record.store);
+    const ledgerDocumentUri = jobId ? jobLedgerDocumentUri(jobId) : undefined;
+    let processed = 0;
+
+    onEvent({ type: 'phase', phase: 'writing' });
+
+    for (let i = 0; i < rows.length; i += this.batchSize) {
+      await Promise.all(
+        rows.slice(i, i + this.batchSize).map(async (row) => {
+          const result = await this.revertRow(shopify, row, ledgerDocumentUri);
+          summary[result.bucket].push(result.payload);
+          onEvent({ type: 'row', bucket: result.bucket, row: result.payload });
+          processed += 1;
+        }),
+      );
+
+      onEvent({ type: 'progress', phase: 'writing', processed, total: rows.length });
+    }
+
+    this.logger.log(
+      `Rollback of ${record.id} complete. Reverted=${summary.updated.length}, Failed=${summary.failed.length}, Skipped=${summary.skipped.length}, Conflicts=${summary.conflict.length}`,
+    );
+
+    return summary;
+  }
+
+  private async revertRow(
+    shopify: ShopifyService,
+    row: ResultRow,
+    ledgerDocumentUri?: string,
+  ): Promise<{ bucket: ResultBucket; payload: ResultRow }> {
+    const base: ResultRow = {
+      rowNumber: row.rowNumber,
+      sku: row.sku,
+      itemName: row.itemName,
+      locationName: row.locationName,
+      quantity: row.quantity,
+      reason: '',
+      inventoryItemId: row.inventoryItemId,
+      locationId: row.locationId,
+      ...(row.sheetName ? { sheetName: row.sheetName } : {}),
+      ...(row.quantityName ? { quantityName: row.quantityName } : {}),
+    };
+    const quantityName = row.quantityName ?? 'available';
+
+    if (!row.inventoryItemId || !row.locationId) {
+      return {
+        bucket: 'failed',
+        payload: { ...base, reason: 'History row has no inventory item/location; revert by hand' },
+      };
+    }
+
+    if (row.previousQuantity == null) {
+      return {
+        bucket: 'skipped',
+        payload: {
+          ...base,
+          reason: 'No previous quantity: inventory level was created by the upload',
+        },
+      };
+    }
+
+    const previous = row.previousQuantity;
+
+    try {
+      const current = await shopify.getCurrentInventory(
+        row.inventoryItemId,
+        row.locationId,
+        quantityName,
+      );
+
+      if (current === previous) {
+        return {
+          bucket: 'skipped',
+          payload: { ...base, quantity: previous, reason: 'Already at previous quantity' },
+        };
+      }
+
+      if (current !== row.quantity) {
+        return {
+          bucket: 'conflict',
+          payload: {
+            ...base,
+            // As in the other buckets, quantity is the revert target.
+            quantity: previous,
+            reason: `Conflict: expected ${row.quantity} (uploaded value), found ${current ?? 'none'}; not reverted`,
+            expectedQuantity: row.quantity,
+            liveQuantity: current,
+          },
+        };
+      }
+
+      if (isSettableQuantityName(quantityName)) {
+        await shopify.setInventory(
+          row.inventoryItemId,
+          row.locationId,
+          previous,
+          row.quantity,
+          quantityName,
+        );
+      } else {
+        // Other states can only be adjusted; the live value was just checked above.
+        const [result] = await shopify.adjustInventoryQuantities(
+          'correction',
+          [
+            {
+              inventoryItemId: row.inventoryItemId,
+              locationId: row.locationId,
+              delta: previous - row.quantity,
+            },
+          ],
+          quantityName,
+          ledgerDocumentUri,
+        );
+        if (!result.ok) {
+          throw new Error(result.message);
+        }
+      }
+
+      return {
+        bucket: 'updated',
+        payload: {
+          ...base,
+          quantity: previous,
+          reason: `Reverted from ${row.quantity}`,
+          previousQuantity: row.quantity,
+        },
+      };
+    } catch (error: unknown) {
+      if (error instanceof ShopifyUnavailableError) {
+        throw error;
+      }
+
+      if (error instanceof InventoryConflictError) {
+        return {
+          bucket: 'conflict',
+          payload: {
+            ...base,
+            quantity: previous,
+            reason: `Conflict: quantity changed since it was read (${error.message}); not reverted`,
+            expectedQuantity: row.quantity,
+          },
+        };
+      }
+
+      return {
+        bucket: 'failed',
+        payload: {
+          ...base,
+          reason: `Shopify API error: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      };
+    }
+  }
+}
@@ -1,38 +1,139 @@
 import {
   BadRequestException,
+  Body,
   Controller,
   Get,
   Header,
   HttpCode,
   HttpStatus,
+  MessageEvent,
+  NotFoundException,
+  Param,
   Post,
+  Query,
+  Sse,
+  StreamableFile,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
+import { CurrentPrincipal, Public, RequireRole } from '../auth/auth.decorators';
+import { AuthService, describePrincipal } from '../auth/auth.service';
+import { AuthPrincipal } from '../auth/auth.types';
 import { memoryStorage } from 'multer';
-import { InventoryService } from './inventory.service';
+import { Observable, map } from 'rxjs';
+import {
+  CatalogHealthReport,
+  CatalogSnapshotService,
+  CatalogSnapshotStatus,
+} from '../services/catalog-snapshot.service';
+import { ExcelService } from '../services/excel.service';
+import {
+  ShopifyStoreSummary,
+  ShopifyStoresService,
+} from '../services/shopify-stores.service';
+import { HISTORY_UI_CLIENT_JS } from './history-ui.client';
+import { HISTORY_UI_HTML } from './history-ui.page';
+import { InventoryExportService } from './inventory-export.service';
+import { InventoryHistoryService } from './inventory-history.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import { InventoryReportService, ReportFile } from './inventory-report.service';
+import { ExportInventoryDto, ReportQueryDto, UploadInventoryDto } from './inventory.dto';
+import {
+  InventoryJob,
+  MappingProfile,
+  SyncHistoryEntry,
+  SyncHistoryRecord,
+} from './inventory.types';
+import { DEFAULT_PROFILE_NAME, MappingProfilesService } from './mapping-profiles.service';
+import { LOCATION_ALIASES_UI_CLIENT_JS } from './location-aliases-ui.client';
+import { LOCATION_ALIASES_UI_HTML } from './location-aliases-ui.page';
+import { PROFILES_UI_CLIENT_JS } from './profiles-ui.client';
+import { PROFILES_UI_HTML } from './profiles-ui.page';
 import { UPLOAD_UI_CLIENT_JS } from './upload-ui.client';
+import { withSandboxBanner } from './ui-styles';
 import { UPLOAD_UI_HTML } from './upload-ui.page';
 
+interface UploadStartedResponse {
+  jobId: string;
+  status: InventoryJob['status'];
+  store: string;
+  jobs: Array<{ jobId: string; status: InventoryJob['status']; store: string }>;
+}
+
 @Controller('inventory')
 export class InventoryController {
-  constructor(private readonly inventoryService: InventoryService) {}
+  constructor(
+    private readonly inventoryJobsService: InventoryJobsService,
+    private readonly inventoryHistoryService: InventoryHistoryService,
+    private readonly inventoryReportService: InventoryReportService,
+    private readonly inventoryExportService: InventoryExportService,
+    private readonly mappingProfilesService: MappingProfilesService,
+    private readonly catalogSnapshotService: CatalogSnapshotService,
+    private readonly shopifyStores: ShopifyStoresService,
+    private readonly authService: AuthService,
+    private readonly excelService: ExcelService,
+  ) {}
 
   @Get('upload-ui')
+  @Public()
   @Header('Content-Type', 'text/html; charset=utf-8')
   getUploadUi(): string {
-    return UPLOAD_UI_HTML;
+    return withSandboxBanner(UPLOAD_UI_HTML, this.shopifyStores.sandbox);
   }
 
   @Get('upload-ui.js')
+  @Public()
   @Header('Content-Type', 'application/javascript; charset=utf-8')
   getUploadUiClient(): string {
     return UPLOAD_UI_CLIENT_JS;
   }
 
+  @Get('history-ui')
+  @Public()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  getHistoryUi(): string {
+    return withSandboxBanner(HISTORY_UI_HTML, this.shopifyStores.sandbox);
+  }
+
+  @Get('history-ui.js')
+  @Public()
+  @Header('Content-Type', 'application/javascript; charset=utf-8')
+  getHistoryUiClient(): string {
+    return HISTORY_UI_CLIENT_JS;
+  }
+
+  @Get('profiles-ui')
+  @Public()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  getProfilesUi(): string {
+    return withSandboxBanner(PROFILES_UI_HTML, this.shopifyStores.sandbox);
+  }
+
+  @Get('profiles-ui.js')
+  @Public()
+  @Header('Content-Type', 'application/javascript; charset=utf-8')
+  getProfilesUiClient(): string {
+    return PROFILES_UI_CLIENT_JS;
+  }
+
+  @Get('location-aliases-ui')
+  @Public()
+  @Header('Content-Type', 'text/html; charset=utf-8')
+  getLocationAliasesUi(): string {
+    return withSandboxBanner(LOCATION_ALIASES_UI_HTML, this.shopifyStores.sandbox);
+  }
+
+  @Get('location-aliases-ui.js')
+  @Public()
+  @Header('Content-Type', 'application/javascript; charset=utf-8')
+  getLocationAliasesUiClient(): string {
+    return LOCATION_ALIASES_UI_CLIENT_JS;
+  }
+
   @Post('upload')
-  @HttpCode(HttpStatus.OK)
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: memoryStorage(),
@@ -55,12 +156,180 @@ export class InventoryController {
     }),
   )
   async uploadInventoryFile(
+    @Body() options: UploadInventoryDto,
+    @CurrentPrincipal() principal?: AuthPrincipal,
     @UploadedFile() file?: Express.Multer.File,
-  ): Promise<unknown> {
+  ): Promise<UploadStartedResponse> {
     if (!file?.buffer) {
       throw new BadRequestException('No input file uploaded');
     }
 
-    return this.inventoryService.processUpload(file.buffer);
+    this.excelService.assertSheetSelection(file.buffer, {
+      sheet: options.sheet,
+      mode: options.sheetMode,
+    });
+    const mappingProfile = await this.resolveMappingProfile(options.profile);
+    const stores = this.resolveStores(options.store);
+    const jobs = this.inventoryJobsService.startFanOut(file.buffer, file.originalname, stores, {
+      dryRun: options.dryRun === true,
+      mappingProfile,
+      sheet: options.sheet,
+      sheetMode: options.sheetMode,
+      useCatalogSnapshot: options.useCatalogSnapshot === true,
+      quantityMode: options.mode ?? 'set',
+      adjustReason: options.reason,
+      safeWrite: options.safeWrite,
+      onConflict: options.onConflict,
+      user: describePrincipal(principal),
+      // Previews never write, so only real uploads are limited.
+      maxChanges: options.dryRun ? undefined : this.authService.changeLimitFor(principal),
+    });
+
+    // jobId/status describe the first job; jobs lists one entry per target store.
+    return {
+      jobId: jobs[0].id,
+      status: jobs[0].status,
+      store: jobs[0].store,
+      jobs: jobs.map((job) => ({ jobId: job.id, status: job.status, store: job.store })),
+    };
+  }
+
+  @Get('stores')
+  listStores(): ShopifyStoreSummary[] {
+    return this.shopifyStores.list();
+  }
+
+  @Get('export')
+  async exportInventory(@Query() query: ExportInventoryDto): Promise<StreamableFile> {
+    return this.toDownload(
+      await this.inventoryExportService.exportInventory(
+        {
+          store: this.resolveStores([query.store ?? ''])[0],
+          locations: query.location,
+          vendor: query.vendor,
+          productType: query.productType,
+          collection: query.collection,
+        },
+        query.format ?? 'xlsx',
+      ),
+    );
+  }
+
+  @Get('jobs/:id')
+  getJob(@Param('id') id: string): InventoryJob {
+    return this.inventoryJobsService.getJob(id);
+  }
+
+  @Sse('jobs/:id/events')
+  streamJobEvents(@Param('id') id: string): Observable<MessageEvent> {
+    return this.inventoryJobsService
+      .streamJob(id)
+      .pipe(map((event): MessageEvent => ({ data: event })));
+  }
+
+  @Get('jobs/:id/report')
+  async downloadReport(
+    @Param('id') id: string,
+    @Query() query: ReportQueryDto,
+  ): Promise<StreamableFile> {
+    return this.toDownload(
+      await this.inventoryReportService.buildSummaryReport(id, query.format ?? 'xlsx'),
+    );
+  }
+
+  @Get('jobs/:id/failed-rows')
+  async downloadFailedRows(
+    @Param('id') id: string,
+    @Query() query: ReportQueryDto,
+  ): Promise<StreamableFile> {
+    return this.toDownload(
+      await this.inventoryReportService.buildFailedRowsExport(id, query.format ?? 'xlsx'),
+    );
+  }
+
+  @Get('history')
+  listHistory(): Promise<SyncHistoryEntry[]> {
+    return this.inventoryHistoryService.list();
+  }
+
+  @Get('history/:id')
+  getHistory(@Param('id') id: string): Promise<SyncHistoryRecord> {
+    return this.inventoryHistoryService.get(id);
+  }
+
+  @Post('history/:id/rollback')
+  @RequireRole('approver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async rollbackUpload(
+    @Param('id') id: string,
+    @CurrentPrincipal() principal?: AuthPrincipal,
+  ): Promise<{ jobId: string; status: InventoryJob['status'] }> {
+    const job = await this.inventoryJobsService.startRollback(id, describePrincipal(principal));
+    return { jobId: job.id, status: job.status };
+  }
+
+  @Get('catalog-snapshot')
+  getCatalogSnapshot(@Query('store') store?: string): CatalogSnapshotStatus {
+    return this.catalogSnapshotService.getStatus(this.resolveStores([store ?? ''])[0]);
+  }
+
+  @Post('catalog-snapshot/refresh')
+  @RequireRole('operator')
+  async refreshCatalogSnapshot(@Query('store') store?: string): Promise<CatalogSnapshotStatus> {
+    const storeName = this.resolveStores([store ?? ''])[0];
+    await this.catalogSnapshotService.getSnapshot(storeName, true);
+    return this.catalogSnapshotService.getStatus(storeName);
+  }
+
+  // Duplicate and blank SKUs/barcodes, checked against the catalog snapshot.
+  @Get('catalog-health')
+  getCatalogHealth(@Query('store') store?: string): Promise<CatalogHealthReport> {
+    return this.catalogSnapshotService.getHealth(this.resolveStores([store ?? ''])[0]);
+  }
+
+  private toDownload(file: ReportFile): StreamableFile {
+    return new StreamableFile(file.content, {
+      type: file.contentType,
+      disposition: `attachment; filename="${file.fileName}"`,
+      length: file.content.length,
+    });
+  }
+
+  // Unknown store names are a client error; an empty list means the default store.
+  private resolveStores(names: string[] = []): string[] {
+    const wanted = names.filter((name) => name.trim());
+    if (!wanted.length) {
+      return [this.shopifyStores.defaultStoreName];
+    }
+
+    return wanted.map((name) => {
+      try {
+        return this.shopifyStores.get(name).storeName;
+      } catch (error: unknown) {
+        if (error instanceof NotFoundException) {
+          throw new BadRequestException(
+            `Unknown store "${name}". Configured stores: ${this.shopifyStores
+              .list()
+              .map((store) => store.name)
+              .join(', ')}`,
+          );
+        }
+
+        throw error;
+      }
+    });
+  }
+
+  private async resolveMappingProfile(name?: string): Promise<MappingProfile> {
+    const profileName = name?.trim() || DEFAULT_PROFILE_NAME;
+    try {
+      return await this.mappingProfilesService.get(profileName);
+    } catch (error: unknown) {
+      if (error instanceof NotFoundException) {
+        throw new BadRequestException(`Unknown mapping profile "${profileName}"`);
+      }
+
+      throw error;
+    }
   }
 }
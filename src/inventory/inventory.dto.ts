@@ -0,0 +1,345 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { INVENTORY_ADJUST_REASONS, InventoryAdjustReason } from '../services/shopify.service';
+import { ReportFormat } from './inventory-report.service';
+import {
+  ConflictPolicy,
+  InboxImportStatus,
+  QuantityMode,
+  SheetMode,
+  WebhookDeliveryStatus,
+} from './inventory.types';
+
+// Multipart form fields always arrive as strings.
+const toBoolean = ({ value }: { value: unknown }): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) {
+    return true;
+  }
+
+  if (['false', '0', 'no', 'off', ''].includes(normalized)) {
+    return false;
+  }
+
+  return value;
+};
+
+// Accepts a repeated multipart field or one comma-separated value.
+const toStringList = ({ value }: { value: unknown }): unknown => {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((item) => (typeof item === 'string' ? item.split(',') : [item]))
+    .map((item) => (typeof item === 'string' ? item.trim() : item))
+    .filter((item) => item !== '');
+};
+
+export class UploadInventoryDto {
+  // Target store name(s); several names fan the file out to one job per store.
+  @IsOptional()
+  @Transform(toStringList)
+  @IsArray()
+  @IsString({ each: true })
+  store?: string[];
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @IsOptional()
+  @IsString()
+  profile?: string;
+
+  // Sheet name, or 1-based sheet position.
+  @IsOptional()
+  @IsString()
+  sheet?: string;
+
+  @IsOptional()
+  @IsIn(['single', 'all'])
+  sheetMode?: SheetMode;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  useCatalogSnapshot?: boolean;
+
+  @IsOptional()
+  @IsIn(['set', 'adjust'])
+  mode?: QuantityMode;
+
+  // Adjust mode: reason code for rows without a reason column value.
+  @IsOptional()
+  @IsIn(INVENTORY_ADJUST_REASONS)
+  reason?: InventoryAdjustReason;
+
+  // Both default to the server's safe-write settings when omitted.
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  safeWrite?: boolean;
+
+  @IsOptional()
+  @IsIn(['review', 'retry'])
+  onConflict?: ConflictPolicy;
+}
+
+export class ReportQueryDto {
+  @IsOptional()
+  @IsIn(['xlsx', 'csv'])
+  format?: ReportFormat;
+}
+
+export class ExportInventoryDto extends ReportQueryDto {
+  @IsOptional()
+  @IsString()
+  store?: string;
+
+  // Location name(s); repeated or comma-separated.
+  @IsOptional()
+  @Transform(toStringList)
+  @IsArray()
+  @IsString({ each: true })
+  location?: string[];
+
+  @IsOptional()
+  @IsString()
+  vendor?: string;
+
+  @IsOptional()
+  @IsString()
+  productType?: string;
+
+  // Collection ID or handle.
+  @IsOptional()
+  @IsString()
+  collection?: string;
+}
+
+export class ColumnMappingDto {
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  sku?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  itemCode?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  handle?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  title?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  barcode?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  optionValues?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  location?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  bin?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  closingStock?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  openingStock?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  stockMovement?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  inward?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  outward?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  onHand?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  damaged?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  qualityControl?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  safetyStock?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  reserved?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  adjustReason?: string[];
+}
+
+export class MappingProfileDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  @Matches(/^[\w .-]+$/, {
+    message: 'name may only contain letters, digits, spaces, dots, dashes and underscores',
+  })
+  name!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @ValidateNested()
+  @Type(() => ColumnMappingDto)
+  columns!: ColumnMappingDto;
+}
+
+export class WebhookDeliveriesQueryDto {
+  @IsOptional()
+  @IsString()
+  jobId?: string;
+
+  @IsOptional()
+  @IsString()
+  webhook?: string;
+
+  @IsOptional()
+  @IsIn(['pending', 'delivered', 'failed'])
+  status?: WebhookDeliveryStatus;
+}
+
+export class InboxImportsQueryDto {
+  @IsOptional()
+  @IsString()
+  folder?: string;
+
+  @IsOptional()
+  @IsIn(['importing', 'done', 'failed', 'duplicate'])
+  status?: InboxImportStatus;
+}
+
+export class LocationAliasDto {
+  @IsOptional()
+  @IsString()
+  store?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  locationId!: string;
+}
+
+export class AllocationRuleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  name!: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  stores?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  locations?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  vendors?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  productTypes?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  skuPattern?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  buffer?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  maxPublish?: number;
+}
+
+export class AllocationRulesDto {
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => AllocationRuleDto)
+  rules!: AllocationRuleDto[];
+}
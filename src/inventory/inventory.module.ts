@@ -1,11 +1,53 @@
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CatalogSnapshotService } from '../services/catalog-snapshot.service';
 import { ExcelService } from '../services/excel.service';
-import { ShopifyService } from '../services/shopify.service';
+import { FileStoreService } from '../services/file-store.service';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { AllocationRulesController } from './allocation-rules.controller';
+import { AllocationRulesService } from './allocation-rules.service';
+import { InboxImportsController } from './inbox-imports.controller';
+import { InboxImportsService } from './inbox-imports.service';
+import { InventoryExportService } from './inventory-export.service';
+import { InventoryHistoryService } from './inventory-history.service';
+import { InventoryJobsService } from './inventory-jobs.service';
+import { InventoryReportService } from './inventory-report.service';
+import { InventoryRollbackService } from './inventory-rollback.service';
 import { InventoryController } from './inventory.controller';
 import { InventoryService } from './inventory.service';
+import { JobWebhooksController } from './job-webhooks.controller';
+import { JobWebhooksService } from './job-webhooks.service';
+import { LocationAliasesController } from './location-aliases.controller';
+import { LocationAliasesService } from './location-aliases.service';
+import { MappingProfilesController } from './mapping-profiles.controller';
+import { MappingProfilesService } from './mapping-profiles.service';
 
 @Module({
-  controllers: [InventoryController],
-  providers: [ExcelService, ShopifyService, InventoryService],
+  imports: [AuthModule],
+  controllers: [
+    InventoryController,
+    MappingProfilesController,
+    JobWebhooksController,
+    InboxImportsController,
+    LocationAliasesController,
+    AllocationRulesController,
+  ],
+  providers: [
+    ExcelService,
+    FileStoreService,
+    ShopifyStoresService,
+    CatalogSnapshotService,
+    InventoryService,
+    MappingProfilesService,
+    InventoryHistoryService,
+    InventoryRollbackService,
+    InventoryJobsService,
+    InventoryReportService,
+    InventoryExportService,
+    JobWebhooksService,
+    InboxImportsService,
+    LocationAliasesService,
+    AllocationRulesService,
+  ],
 })
 export class InventoryModule {}
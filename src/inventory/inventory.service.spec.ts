@@ -0,0 +1,134 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AppConfig, ShopifyConfig } from '../config/shopify.config';
+import { CatalogSnapshotService } from '../services/catalog-snapshot.service';
+import { ExcelService } from '../services/excel.service';
+import { SandboxSeed, SandboxShopifyTransport } from '../services/shopify-sandbox';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { ShopifyService } from '../services/shopify.service';
+import { AllocationRulesService } from './allocation-rules.service';
+import { InventoryService } from './inventory.service';
+import { AllocationRule, InventorySyncEvent } from './inventory.types';
+import { LocationAliasesService } from './location-aliases.service';
+
+const config = {
+  batchSize: 10,
+  writeBatchSize: 10,
+  safeWrite: { enabled: false, onConflict: 'skip', maxConflictRetries: 0 },
+  maxRetries: 0,
+  retryBaseDelayMs: 1,
+  retryMaxDelayMs: 1,
+  defaultQueryCost: 10,
+  catalogSnapshot: {},
+  circuitBreaker: { failureThreshold: 10, cooldownMs: 1000 },
+} as unknown as AppConfig;
+
+// 30 available and 4 committed, so 34 on hand.
+const seed: SandboxSeed = {
+  locations: [{ name: 'Main Warehouse' }],
+  products: [
+    {
+      handle: 'classic-tee',
+      title: 'Classic Tee',
+      variants: [
+        {
+          sku: 'TEE-BLK-M',
+          options: ['Black', 'M'],
+          inventory: { 'Main Warehouse': { available: 30, committed: 4 } },
+        },
+      ],
+    },
+  ],
+};
+
+const csv = (header: string, quantity: number): Buffer =>
+  Buffer.from(`SKU,Location,${header}\nTEE-BLK-M,Main Warehouse,${quantity}\n`);
+
+describe('InventoryService', () => {
+  let shopify: ShopifyService;
+  let rules: AllocationRule[];
+  let service: InventoryService;
+
+  beforeEach(() => {
+    shopify = new ShopifyService(
+      { name: 'default', defaultLocationName: '' } as ShopifyConfig,
+      config,
+      new SandboxShopifyTransport('default', seed, { throttleRate: 0, userErrorRate: 0 }),
+    );
+    rules = [];
+    service = new InventoryService(
+      config,
+      new ExcelService(),
+      { get: () => shopify } as unknown as ShopifyStoresService,
+      {} as CatalogSnapshotService,
+      { getAliasMap: async () => new Map() } as unknown as LocationAliasesService,
+      { list: async () => rules } as unknown as AllocationRulesService,
+    );
+  });
+
+  const live = async (name: 'available' | 'on_hand'): Promise<number | null> => {
+    const [location] = await shopify.getLocations();
+    const variant = await shopify.getVariantBySku('TEE-BLK-M');
+    return shopify.getCurrentInventory(variant!.inventoryItemId, location.id, name);
+  };
+
+  describe('processUpload in set mode', () => {
+    it('publishes a counted on_hand through the matching allocation rule', async () => {
+      rules = [{ name: 'Web buffer', buffer: 2 }];
+
+      const summary = await service.processUpload(csv('On hand (new)', 20));
+
+      // 20 counted, 4 of them committed: 16 available, 14 once the buffer is held back.
+      expect(summary.updated).toEqual([
+        expect.objectContaining({
+          quantity: 14,
+          quantityName: 'available',
+          fileQuantity: 20,
+          allocationRule: 'Web buffer',
+        }),
+      ]);
+      expect(await live('available')).toBe(14);
+    });
+
+    it('writes on_hand as counted when no rule matches', async () => {
+      rules = [{ name: 'Outlet only', locations: ['Outlet'], buffer: 2 }];
+
+      const summary = await service.processUpload(csv('On hand (new)', 20));
+
+      expect(summary.updated).toEqual([
+        expect.objectContaining({ quantity: 20, quantityName: 'on_hand', fileQuantity: 20 }),
+      ]);
+      expect(summary.updated[0]).not.toHaveProperty('allocationRule');
+      expect(await live('on_hand')).toBe(20);
+    });
+
+    it('records the file quantity on rows no rule changed', async () => {
+      const summary = await service.processUpload(csv('Quantity', 25));
+
+      expect(summary.updated).toEqual([
+        expect.objectContaining({ quantity: 25, quantityName: 'available', fileQuantity: 25 }),
+      ]);
+    });
+
+    it('reports the planned changes of an upload refused over the change limit', async () => {
+      const events: InventorySyncEvent[] = [];
+
+      await expect(
+        service.processUpload(csv('Quantity', 25), { maxChanges: 0 }, (event) =>
+          events.push(event),
+        ),
+      ).rejects.toThrow(ForbiddenException);
+
+      expect(events.filter((event) => event.type === 'planned')).toEqual([
+        {
+          type: 'planned',
+          row: expect.objectContaining({
+            sku: 'TEE-BLK-M',
+            currentQuantity: 30,
+            targetQuantity: 25,
+          }),
+        },
+      ]);
+      expect(await live('available')).toBe(30);
+    });
+  });
+});
@@ -1,16 +1,37 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { APP_CONFIG } from '../config/shopify.config';
-import { ExcelService } from '../services/excel.service';
+import { ForbiddenException, Inject, Injectable, Logger } from '@nestjs/common';
+import { AppConfig, appConfig, SafeWriteConfig } from '../config/shopify.config';
+import { CatalogSnapshotService } from '../services/catalog-snapshot.service';
+import { ExcelService, sourceRowKey } from '../services/excel.service';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { AmbiguousVariantError, ShopifyUnavailableError } from '../services/shopify.errors';
 import {
+  InventoryAdjustReason,
+  InventoryWriteResult,
+  isSettableQuantityName,
+  jobLedgerDocumentUri,
+  ShopifyItemProduct,
   ShopifyLocation,
   ShopifyService,
   ShopifyVariant,
+  VariantLookup,
 } from '../services/shopify.service';
 import {
+  AllocationResult,
+  AllocationRulesService,
+  applyAllocationRules,
+  rulesNeedProductData,
+} from './allocation-rules.service';
+import {
+  ConflictPolicy,
+  InventorySyncEvent,
   InventorySyncSummary,
   ParsedInventoryRow,
+  PlannedChange,
+  QuantityMode,
   ResultRow,
+  UploadOptions,
 } from './inventory.types';
+import { closestLocationKey, LocationAliasesService } from './location-aliases.service';
 
 interface VariantCacheValue {
   inventoryItemId: string;
@@ -22,29 +43,101 @@ interface VariantResolution {
   reason?: string;
 }
 
+interface LocationResolution {
+  location: ShopifyLocation | null;
+  reason?: string;
+}
+
+// Published quantity for a set-mode row after allocation rules; null when none applies.
+type Allocator = (
+  row: ParsedInventoryRow,
+  sku: string,
+  inventoryItemId: string,
+  location: ShopifyLocation,
+  quantity: number,
+) => AllocationResult | null;
+
+type RowOutcome =
+  | { bucket: 'updated' | 'failed' | 'skipped' | 'conflict'; payload: ResultRow }
+  | { bucket: 'planned'; payload: PlannedChange };
+
+interface WriteMode {
+  safeWrite: boolean;
+  onConflict: ConflictPolicy;
+  maxConflictRetries: number;
+}
+
+const STALE_COMPARE_CODE = 'COMPARE_QUANTITY_STALE';
+
+const DEFAULT_ADJUST_REASON: InventoryAdjustReason = 'correction';
+
 @Injectable()
 export class InventoryService {
   private readonly logger = new Logger(InventoryService.name);
   private readonly batchSize: number;
-  private readonly batchDelayMs: number;
+  private readonly writeBatchSize: number;
+  private readonly safeWriteDefaults: SafeWriteConfig;
 
   constructor(
+    @Inject(appConfig.KEY) config: AppConfig,
     private readonly excelService: ExcelService,
-    private readonly shopifyService: ShopifyService,
+    private readonly shopifyStores: ShopifyStoresService,
+    private readonly catalogSnapshotService: CatalogSnapshotService,
+    private readonly locationAliasesService: LocationAliasesService,
+    private readonly allocationRulesService: AllocationRulesService,
   ) {
-    this.batchSize = APP_CONFIG.batchSize;
-    this.batchDelayMs = APP_CONFIG.batchDelayMs;
+    this.batchSize = config.batchSize;
+    this.writeBatchSize = config.writeBatchSize;
+    this.safeWriteDefaults = config.safeWrite;
   }
 
-  async processUpload(buffer: Buffer): Promise<InventorySyncSummary> {
+  async processUpload(
+    buffer: Buffer,
+    options: UploadOptions = {},
+    onEvent: (event: InventorySyncEvent) => void = () => undefined,
+  ): Promise<InventorySyncSummary> {
+    const dryRun = options.dryRun === true;
+    const quantityMode = options.quantityMode ?? 'set';
+    const defaultAdjustReason = options.adjustReason ?? DEFAULT_ADJUST_REASON;
+    const shopify = this.shopifyStores.get(options.store);
     const summary: InventorySyncSummary = {
       updated: [],
       failed: [],
       skipped: [],
+      conflict: [],
+      ...(dryRun ? { planned: [] } : {}),
+    };
+
+    onEvent({ type: 'phase', phase: 'parsing' });
+    const { parsedRows, skippedRows, sourceRows } = this.excelService.parseInventoryRows(
+      buffer,
+      options.mappingProfile?.columns,
+      { sheet: options.sheet, mode: options.sheetMode },
+      quantityMode,
+    );
+
+    const record = (outcome: RowOutcome): void => {
+      if (outcome.bucket === 'planned') {
+        summary.planned?.push(outcome.payload);
+        onEvent({ type: 'planned', row: outcome.payload });
+        return;
+      }
+
+      // Keep the original cells of rows someone has to fix and upload again.
+      const row =
+        outcome.bucket === 'failed' || outcome.bucket === 'conflict'
+          ? {
+              ...outcome.payload,
+              sourceRow: sourceRows.get(
+                sourceRowKey(outcome.payload.sheetName, outcome.payload.rowNumber),
+              ),
+            }
+          : outcome.payload;
+      summary[outcome.bucket].push(row);
+      onEvent({ type: 'row', bucket: outcome.bucket, row });
     };
 
-    const { parsedRows, skippedRows } = this.excelService.parseInventoryRows(buffer);
-    summary.skipped.push(...skippedRows);
+    skippedRows.forEach((row) => record({ bucket: 'skipped', payload: row }));
 
     if (!parsedRows.length) {
       this.logger.warn('No valid rows found in uploaded file');
@@ -52,47 +145,128 @@ export class InventoryService {
     }
 
     // Keep latest row per SKU/location to avoid redundant updates.
-    const dedupedRows = this.deduplicateRows(parsedRows, summary);
-    const locations = await this.shopifyService.getLocations();
-    const locationsMap = this.buildLocationMap(locations);
+    const dedupedRows =
+      quantityMode === 'adjust'
+        ? this.mergeAdjustments(parsedRows, defaultAdjustReason, record)
+        : this.deduplicateRows(parsedRows, record);
+
+    let lookup: VariantLookup = shopify;
+    if (options.useCatalogSnapshot) {
+      onEvent({ type: 'phase', phase: 'loading_catalog' });
+      lookup = await this.catalogSnapshotService.getSnapshot(shopify.storeName);
+    }
+
+    onEvent({ type: 'phase', phase: 'resolving_variants' });
+    const locations = await shopify.getLocations();
+    const locationsMap = this.buildLocationMap(
+      locations,
+      await this.locationAliasesService.getAliasMap(shopify.storeName),
+    );
 
-    const variantByIdentifier = await this.prefetchVariantsByIdentifier(dedupedRows);
+    const variantByIdentifier = await this.prefetchVariantsByIdentifier(
+      dedupedRows,
+      lookup,
+      (processed, total) =>
+        onEvent({ type: 'progress', phase: 'resolving_variants', processed, total }),
+    );
+    const allocate = await this.buildAllocator(shopify, quantityMode, variantByIdentifier);
+
+    onEvent({ type: 'phase', phase: 'planning' });
 
     const totalRows = dedupedRows.length;
+    const pendingWrites: PlannedChange[] = [];
     let processed = 0;
 
-    // Process in batches to reduce Shopify burst pressure.
+    // Read current levels in batches; ShopifyService paces requests against the cost budget.
     for (const batch of this.chunk(dedupedRows, this.batchSize)) {
       await Promise.all(
         batch.map(async (row) => {
-          const result = await this.processRow(
+          const result = await this.planRow(
+            shopify,
             row,
             locations,
             locationsMap,
             variantByIdentifier,
+            quantityMode,
+            defaultAdjustReason,
+            allocate,
           );
 
-          if (result.bucket === 'updated') {
-            summary.updated.push(result.payload);
-          } else if (result.bucket === 'failed') {
-            summary.failed.push(result.payload);
+          if (result.bucket === 'planned' && !dryRun) {
+            pendingWrites.push(result.payload);
           } else {
-            summary.skipped.push(result.payload);
+            record(result);
           }
 
           processed += 1;
         }),
       );
 
-      this.logger.log(`Progress: ${processed}/${totalRows} rows processed`);
+      this.logger.log(`Progress: ${processed}/${totalRows} rows planned`);
+      onEvent({ type: 'progress', phase: 'planning', processed, total: totalRows });
+    }
+
+    // Checked before anything is written, so a refused upload leaves Shopify untouched.
+    // The changes are kept as planned rows so an approver can see what was asked for.
+    if (options.maxChanges !== undefined && pendingWrites.length > options.maxChanges) {
+      summary.planned = [];
+      pendingWrites.forEach((change) => record({ bucket: 'planned', payload: change }));
+      throw new ForbiddenException(
+        `Upload would change ${pendingWrites.length} quantities; more than ${options.maxChanges} needs the approver role`,
+      );
+    }
 
-      if (processed < totalRows && this.batchDelayMs > 0) {
-        await this.delay(this.batchDelayMs);
+    if (pendingWrites.length) {
+      onEvent({ type: 'phase', phase: 'writing' });
+      const onWriteProgress = (written: number): void =>
+        onEvent({
+          type: 'progress',
+          phase: 'writing',
+          processed: written,
+          total: pendingWrites.length,
+        });
+      const ledgerDocumentUri = options.jobId ? jobLedgerDocumentUri(options.jobId) : undefined;
+
+      if (quantityMode === 'adjust') {
+        // Relative changes cannot overwrite concurrent sales, so safe-write does not apply.
+        await this.writeAdjustments(
+          shopify,
+          pendingWrites,
+          { fromFileDelta: true, ledgerDocumentUri },
+          record,
+          onWriteProgress,
+        );
+      } else {
+        const writeMode: WriteMode = {
+          safeWrite: options.safeWrite ?? this.safeWriteDefaults.enabled,
+          onConflict: options.onConflict ?? this.safeWriteDefaults.onConflict,
+          maxConflictRetries: this.safeWriteDefaults.maxConflictRetries,
+        };
+        // States inventorySetQuantities cannot write get a correction of the difference.
+        const sets = pendingWrites.filter((change) => isSettableQuantityName(change.quantityName));
+        const corrections = pendingWrites.filter(
+          (change) => !isSettableQuantityName(change.quantityName),
+        );
+        await this.writePlannedChanges(shopify, sets, writeMode, record, onWriteProgress);
+        await this.writeAdjustments(
+          shopify,
+          corrections,
+          { fromFileDelta: false, ledgerDocumentUri },
+          record,
+          (written) => onWriteProgress(sets.length + written),
+        );
       }
     }
 
+    if (dryRun) {
+      this.logger.log(
+        `Dry run complete. Planned=${summary.planned?.length ?? 0}, Failed=${summary.failed.length}, Skipped=${summary.skipped.length}`,
+      );
+      return summary;
+    }
+
     this.logger.log(
-      `Sync complete. Updated=${summary.updated.length}, Failed=${summary.failed.length}, Skipped=${summary.skipped.length}`,
+      `Sync complete. Updated=${summary.updated.length}, Failed=${summary.failed.length}, Skipped=${summary.skipped.length}, Conflicts=${summary.conflict.length}`,
     );
 
     return summary;
@@ -100,6 +274,8 @@ export class InventoryService {
 
   private async prefetchVariantsByIdentifier(
     rows: ParsedInventoryRow[],
+    lookup: VariantLookup,
+    onProgress: (processed: number, total: number) => void,
   ): Promise<Map<string, VariantResolution>> {
     const representativeByKey = new Map<string, ParsedInventoryRow>();
     rows.forEach((row) => {
@@ -114,9 +290,15 @@ export class InventoryService {
         batch.map(async (row) => {
           const key = this.buildIdentifierKey(row);
           try {
-            const resolution = await this.resolveVariant(row);
+            const resolution = await this.resolveVariant(row, lookup);
             variantByIdentifier.set(key, resolution);
           } catch (error: unknown) {
+            this.rethrowIfUnavailable(error);
+            if (error instanceof AmbiguousVariantError) {
+              variantByIdentifier.set(key, { variant: null, reason: error.message });
+              return;
+            }
+
             this.logger.error(
               `Failed to resolve variant for ${key}: ${this.getErrorMessage(error)}`,
             );
@@ -128,20 +310,23 @@ export class InventoryService {
         }),
       );
 
-      if (this.batchDelayMs > 0) {
-        await this.delay(this.batchDelayMs);
-      }
+      onProgress(variantByIdentifier.size, uniqueRows.length);
     }
 
     return variantByIdentifier;
   }
 
-  private async processRow(
+  // Resolves variant, location and current quantity; rows that need a write come back as 'planned'.
+  private async planRow(
+    shopify: ShopifyService,
     row: ParsedInventoryRow,
     locations: ShopifyLocation[],
     locationsMap: Map<string, string>,
     variantByIdentifier: Map<string, VariantResolution>,
-  ): Promise<{ bucket: keyof InventorySyncSummary; payload: ResultRow }> {
+    quantityMode: QuantityMode,
+    defaultAdjustReason: string,
+    allocate: Allocator,
+  ): Promise<RowOutcome> {
     const variantResolution = variantByIdentifier.get(this.buildIdentifierKey(row));
     const variant = variantResolution?.variant;
 
@@ -150,97 +335,592 @@ export class InventoryService {
         bucket: 'failed',
         payload: {
           rowNumber: row.rowNumber,
+          sheetName: row.sheetName,
           sku: row.sku,
           itemName: row.title,
           locationName: row.shopifyLocationName,
           quantity: row.quantity,
           reason: variantResolution?.reason || 'Could not resolve variant in Shopify',
           calculationSource: row.calculationSource,
+          quantityName: row.quantityName,
         },
       };
     }
 
     try {
       const resolvedSku = row.sku || variant.sku;
-      const resolvedLocation = await this.resolveLocationForRow(
-        row,
-        variant.inventoryItemId,
-        locations,
-        locationsMap,
-      );
+      const { location: resolvedLocation, reason: locationReason } =
+        await this.resolveLocationForRow(
+          shopify,
+          row,
+          variant.inventoryItemId,
+          locations,
+          locationsMap,
+        );
       if (!resolvedLocation) {
         return {
           bucket: 'failed',
           payload: {
             rowNumber: row.rowNumber,
+            sheetName: row.sheetName,
             sku: row.sku,
             itemName: row.title,
             locationName: row.shopifyLocationName,
             quantity: row.quantity,
             reason:
+              locationReason ??
               'Location is ambiguous. Add location in file or set defaultLocationName in config',
             calculationSource: row.calculationSource,
+            quantityName: row.quantityName,
           },
         };
       }
 
-      const current = await this.shopifyService.getCurrentInventory(
+      let current = await shopify.getCurrentInventory(
         variant.inventoryItemId,
         resolvedLocation.id,
+        row.quantityName,
+      );
+
+      if (quantityMode === 'adjust') {
+        return this.planAdjustment(
+          row,
+          resolvedSku,
+          variant.inventoryItemId,
+          resolvedLocation,
+          current,
+          row.adjustReason ?? defaultAdjustReason,
+        );
+      }
+
+      let quantityName = row.quantityName;
+      let allocation = allocate(
+        row,
+        resolvedSku,
+        variant.inventoryItemId,
+        resolvedLocation,
+        row.quantity,
       );
+      if (allocation && quantityName === 'on_hand') {
+        // Rules limit what is published, so a matched on_hand count is written as available:
+        // the count less the units held in other states (committed, reserved, ...).
+        const available = await shopify.getCurrentInventory(
+          variant.inventoryItemId,
+          resolvedLocation.id,
+          'available',
+        );
+        const held = (current ?? 0) - (available ?? 0);
+        allocation = allocate(
+          row,
+          resolvedSku,
+          variant.inventoryItemId,
+          resolvedLocation,
+          Math.max(0, row.quantity - held),
+        );
+        quantityName = 'available';
+        current = available;
+      }
+      const targetQuantity = allocation?.quantity ?? row.quantity;
+      const allocated = {
+        fileQuantity: row.quantity,
+        ...(allocation ? { allocationRule: allocation.rule.name } : {}),
+      };
 
-      if (current === row.quantity) {
+      if (current == null && !isSettableQuantityName(quantityName)) {
         return {
-          bucket: 'skipped',
+          bucket: 'failed',
           payload: {
             rowNumber: row.rowNumber,
+            sheetName: row.sheetName,
             sku: resolvedSku,
             itemName: row.title,
             locationName: resolvedLocation.name,
             quantity: row.quantity,
-            reason: 'Inventory already matches target quantity',
+            reason: `Item is not stocked at ${resolvedLocation.name}; ${quantityName} needs an existing inventory level`,
             calculationSource: row.calculationSource,
+            quantityName,
+            ...allocated,
           },
         };
       }
 
-      await this.shopifyService.setInventory(
-        variant.inventoryItemId,
-        resolvedLocation.id,
-        row.quantity,
-      );
+      if (current === targetQuantity) {
+        return {
+          bucket: 'skipped',
+          payload: {
+            rowNumber: row.rowNumber,
+            sheetName: row.sheetName,
+            sku: resolvedSku,
+            itemName: row.title,
+            locationName: resolvedLocation.name,
+            quantity: targetQuantity,
+            reason: 'Inventory already matches target quantity',
+            calculationSource: row.calculationSource,
+            quantityName,
+            previousQuantity: current,
+            ...allocated,
+          },
+        };
+      }
 
       return {
-        bucket: 'updated',
+        bucket: 'planned',
         payload: {
           rowNumber: row.rowNumber,
+          sheetName: row.sheetName,
           sku: resolvedSku,
           itemName: row.title,
+          inventoryItemId: variant.inventoryItemId,
+          locationId: resolvedLocation.id,
           locationName: resolvedLocation.name,
-          quantity: row.quantity,
-          reason: current == null ? 'Inventory created/initialized' : `Updated from ${current}`,
+          currentQuantity: current,
+          targetQuantity,
+          delta: targetQuantity - (current ?? 0),
           calculationSource: row.calculationSource,
+          quantityName,
+          ...(isSettableQuantityName(quantityName)
+            ? {}
+            : { adjustReason: DEFAULT_ADJUST_REASON }),
+          ...allocated,
         },
       };
     } catch (error: unknown) {
+      this.rethrowIfUnavailable(error);
       return {
         bucket: 'failed',
         payload: {
           rowNumber: row.rowNumber,
+          sheetName: row.sheetName,
           sku: row.sku || variant.sku,
           itemName: row.title,
           locationName: row.shopifyLocationName,
           quantity: row.quantity,
           reason: `Shopify API error: ${this.getErrorMessage(error)}`,
           calculationSource: row.calculationSource,
+          quantityName: row.quantityName,
         },
       };
     }
   }
 
+  // Rules only limit what is published: "available" in set mode, which on_hand rows are
+  // written through when a rule matches. Movements (adjust mode) and the other quantity
+  // states go through unchanged. A failed product read fails the job rather than
+  // publishing without the buffers.
+  private async buildAllocator(
+    shopify: ShopifyService,
+    quantityMode: QuantityMode,
+    variantByIdentifier: Map<string, VariantResolution>,
+  ): Promise<Allocator> {
+    const rules = await this.allocationRulesService.list();
+    if (quantityMode !== 'set' || !rules.length) {
+      return () => null;
+    }
+
+    const products = rulesNeedProductData(rules)
+      ? await shopify.getInventoryItemProducts(
+          [...variantByIdentifier.values()]
+            .map((resolution) => resolution.variant?.inventoryItemId)
+            .filter((id): id is string => Boolean(id)),
+        )
+      : new Map<string, ShopifyItemProduct>();
+
+    return (row, sku, inventoryItemId, location, quantity) =>
+      row.quantityName === 'available' || row.quantityName === 'on_hand'
+        ? applyAllocationRules(
+            rules,
+            {
+              store: shopify.storeName,
+              location: location.name,
+              sku,
+              ...products.get(inventoryItemId),
+            },
+            quantity,
+          )
+        : null;
+  }
+
+  // Adjust mode: the row quantity is a delta applied on top of the live level.
+  private planAdjustment(
+    row: ParsedInventoryRow,
+    sku: string,
+    inventoryItemId: string,
+    location: ShopifyLocation,
+    current: number | null,
+    adjustReason: string,
+  ): RowOutcome {
+    if (current == null) {
+      return {
+        bucket: 'failed',
+        payload: {
+          rowNumber: row.rowNumber,
+          sheetName: row.sheetName,
+          sku,
+          itemName: row.title,
+          locationName: location.name,
+          quantity: row.quantity,
+          reason: `Item is not stocked at ${location.name}; adjust mode cannot create an inventory level`,
+          calculationSource: row.calculationSource,
+          quantityName: row.quantityName,
+        },
+      };
+    }
+
+    return {
+      bucket: 'planned',
+      payload: {
+        rowNumber: row.rowNumber,
+        sheetName: row.sheetName,
+        sku,
+        itemName: row.title,
+        inventoryItemId,
+        locationId: location.id,
+        locationName: location.name,
+        currentQuantity: current,
+        targetQuantity: current + row.quantity,
+        delta: row.quantity,
+        calculationSource: row.calculationSource,
+        quantityName: row.quantityName,
+        adjustReason,
+      },
+    };
+  }
+
+  // Sends planned changes as multi-item inventorySetQuantities mutations; each row keeps its own result.
+  // In safe-write mode every quantity carries the value read during planning as
+  // compareQuantity; Shopify rejects the ones whose stock moved in the meantime.
+  private async writePlannedChanges(
+    shopify: ShopifyService,
+    changes: PlannedChange[],
+    mode: WriteMode,
+    record: (outcome: RowOutcome) => void,
+    onProgress: (written: number) => void,
+  ): Promise<void> {
+    let written = 0;
+    const batches = [...this.groupBy(changes, (change) => change.quantityName).values()].flatMap(
+      (group) => this.chunk(group, this.writeBatchSize),
+    );
+
+    // Each mutation writes one quantity name, so batches never mix available and on_hand.
+    for (const batch of batches) {
+      let pending = batch;
+
+      for (let attempt = 0; pending.length; attempt += 1) {
+        const results = await this.sendWrites(shopify, pending, mode.safeWrite);
+        const stale: PlannedChange[] = [];
+
+        pending.forEach((change, index) => {
+          const result = results[index];
+          if (result.ok) {
+            record({
+              bucket: 'updated',
+              payload: {
+                ...this.toResultRow(change),
+                reason:
+                  (change.currentQuantity == null
+                    ? 'Inventory created/initialized'
+                    : `Updated from ${change.currentQuantity}`) +
+                  (attempt ? ' after re-reading changed stock' : ''),
+                previousQuantity: change.currentQuantity,
+                inventoryItemId: change.inventoryItemId,
+                locationId: change.locationId,
+              },
+            });
+          } else if (mode.safeWrite && result.code === STALE_COMPARE_CODE) {
+            stale.push(change);
+          } else {
+            record({
+              bucket: 'failed',
+              payload: {
+                ...this.toResultRow(change),
+                reason: `Shopify API error: ${result.message}`,
+              },
+            });
+          }
+        });
+
+        const canRetry = mode.onConflict === 'retry' && attempt < mode.maxConflictRetries;
+        pending = await this.resolveConflicts(shopify, stale, canRetry, attempt, record);
+      }
+
+      written += batch.length;
+      this.logger.log(`Progress: ${written}/${changes.length} rows written`);
+      onProgress(written);
+    }
+  }
+
+  private async sendWrites(
+    shopify: ShopifyService,
+    changes: PlannedChange[],
+    safeWrite: boolean,
+  ): Promise<InventoryWriteResult[]> {
+    const [{ quantityName }] = changes;
+    if (!isSettableQuantityName(quantityName)) {
+      throw new Error(`${quantityName} cannot be set directly`);
+    }
+
+    try {
+      return await shopify.setInventoryQuantities(
+        changes.map((change) => ({
+          inventoryItemId: change.inventoryItemId,
+          locationId: change.locationId,
+          quantity: change.targetQuantity,
+          ...(safeWrite ? { compareQuantity: change.currentQuantity } : {}),
+        })),
+        quantityName,
+      );
+    } catch (error: unknown) {
+      this.rethrowIfUnavailable(error);
+      const message = this.getErrorMessage(error);
+      return changes.map(() => ({ ok: false, message }));
+    }
+  }
+
+  // Re-reads the live quantity of rejected writes. Returns the changes to send again,
+  // rebased on the live value; the rest are recorded as conflicts for review.
+  private async resolveConflicts(
+    shopify: ShopifyService,
+    stale: PlannedChange[],
+    canRetry: boolean,
+    attempt: number,
+    record: (outcome: RowOutcome) => void,
+  ): Promise<PlannedChange[]> {
+    const retries: PlannedChange[] = [];
+
+    for (const batch of this.chunk(stale, this.batchSize)) {
+      await Promise.all(
+        batch.map(async (change) => {
+          let liveQuantity: number | null;
+          try {
+            liveQuantity = await shopify.getCurrentInventory(
+              change.inventoryItemId,
+              change.locationId,
+              change.quantityName,
+            );
+          } catch (error: unknown) {
+            this.rethrowIfUnavailable(error);
+            record({
+              bucket: 'failed',
+              payload: {
+                ...this.toResultRow(change),
+                reason: `Stock changed since it was read and re-reading it failed: ${this.getErrorMessage(error)}`,
+              },
+            });
+            return;
+          }
+
+          if (liveQuantity === change.targetQuantity) {
+            record({
+              bucket: 'skipped',
+              payload: {
+                ...this.toResultRow(change),
+                reason: 'Inventory already matches target quantity',
+              },
+            });
+            return;
+          }
+
+          if (canRetry) {
+            retries.push({
+              ...change,
+              currentQuantity: liveQuantity,
+              delta: change.targetQuantity - (liveQuantity ?? 0),
+            });
+            return;
+          }
+
+          const retried = attempt
+            ? ` (after ${attempt} ${attempt === 1 ? 'retry' : 'retries'})`
+            : '';
+          record({
+            bucket: 'conflict',
+            payload: {
+              ...this.toResultRow(change),
+              reason: `Stock changed since it was read: expected ${this.describeQuantity(change.currentQuantity)}, found ${this.describeQuantity(liveQuantity)}; not written${retried}`,
+              expectedQuantity: change.currentQuantity,
+              liveQuantity,
+              inventoryItemId: change.inventoryItemId,
+              locationId: change.locationId,
+            },
+          });
+        }),
+      );
+    }
+
+    return retries;
+  }
+
+  // Sends deltas as inventoryAdjustQuantities mutations, one per quantity name and reason
+  // code within a batch. fromFileDelta: the file held the delta (adjust mode), not a target.
+  private async writeAdjustments(
+    shopify: ShopifyService,
+    changes: PlannedChange[],
+    { fromFileDelta, ledgerDocumentUri }: { fromFileDelta: boolean; ledgerDocumentUri?: string },
+    record: (outcome: RowOutcome) => void,
+    onProgress: (written: number) => void,
+  ): Promise<void> {
+    let written = 0;
+
+    for (const batch of this.chunk(changes, this.writeBatchSize)) {
+      const groups = this.groupBy(
+        batch,
+        (change) => `${change.quantityName}|${change.adjustReason ?? DEFAULT_ADJUST_REASON}`,
+      );
+
+      for (const group of groups.values()) {
+        const { quantityName } = group[0];
+        const reason = (group[0].adjustReason ?? DEFAULT_ADJUST_REASON) as InventoryAdjustReason;
+        let results: InventoryWriteResult[];
+        try {
+          results = await shopify.adjustInventoryQuantities(
+            reason,
+            group.map((change) => ({
+              inventoryItemId: change.inventoryItemId,
+              locationId: change.locationId,
+              delta: change.delta,
+            })),
+            quantityName,
+            ledgerDocumentUri,
+          );
+        } catch (error: unknown) {
+          this.rethrowIfUnavailable(error);
+          const message = this.getErrorMessage(error);
+          results = group.map(() => ({ ok: false, message }));
+        }
+
+        group.forEach((change, index) => {
+          const result = results[index];
+          if (!result.ok) {
+            record({
+              bucket: 'failed',
+              payload: {
+                ...this.toResultRow(change),
+                ...(fromFileDelta ? { quantity: change.delta } : {}),
+                reason: `Shopify API error: ${result.message}`,
+              },
+            });
+            return;
+          }
+
+          const signedDelta = change.delta > 0 ? `+${change.delta}` : String(change.delta);
+          record({
+            bucket: 'updated',
+            payload: {
+              ...this.toResultRow(change),
+              reason: `Adjusted by ${signedDelta} (${reason}) from ${change.currentQuantity}`,
+              previousQuantity: change.currentQuantity,
+              inventoryItemId: change.inventoryItemId,
+              locationId: change.locationId,
+            },
+          });
+        });
+      }
+
+      written += batch.length;
+      this.logger.log(`Progress: ${written}/${changes.length} rows adjusted`);
+      onProgress(written);
+    }
+  }
+
+  private toResultRow(change: PlannedChange): ResultRow {
+    return {
+      rowNumber: change.rowNumber,
+      sheetName: change.sheetName,
+      sku: change.sku,
+      itemName: change.itemName,
+      locationName: change.locationName,
+      quantity: change.targetQuantity,
+      reason: '',
+      calculationSource: change.calculationSource,
+      quantityName: change.quantityName,
+      ...(change.fileQuantity !== undefined ? { fileQuantity: change.fileQuantity } : {}),
+      ...(change.allocationRule ? { allocationRule: change.allocationRule } : {}),
+    };
+  }
+
+  private describeQuantity(quantity: number | null): string {
+    return quantity == null ? 'no inventory level' : String(quantity);
+  }
+
+  // Adjust mode: movements for the same item/location add up when they share a reason.
+  private mergeAdjustments(
+    rows: ParsedInventoryRow[],
+    defaultAdjustReason: string,
+    record: (outcome: RowOutcome) => void,
+  ): ParsedInventoryRow[] {
+    const grouped = new Map<string, ParsedInventoryRow[]>();
+    rows.forEach((row) => {
+      const locationKey = row.shopifyLocationName
+        ? row.shopifyLocationName.toLowerCase()
+        : '__auto__';
+      const key = `${this.buildIdentifierKey(row)}::${locationKey}::${row.quantityName}`;
+      grouped.set(key, [...(grouped.get(key) ?? []), row]);
+    });
+
+    const mergedRows: ParsedInventoryRow[] = [];
+    grouped.forEach((groupRows) => {
+      if (groupRows.length === 1) {
+        mergedRows.push(groupRows[0]);
+        return;
+      }
+
+      const toResult = (row: ParsedInventoryRow, reason: string): ResultRow => ({
+        rowNumber: row.rowNumber,
+        sheetName: row.sheetName,
+        sku: row.sku,
+        itemName: row.title,
+        locationName: row.shopifyLocationName,
+        quantity: row.quantity,
+        reason,
+        calculationSource: row.calculationSource,
+        quantityName: row.quantityName,
+      });
+
+      const reasons = new Set(groupRows.map((row) => row.adjustReason ?? defaultAdjustReason));
+      if (reasons.size > 1) {
+        const rowNumbers = groupRows
+          .map((row) => (row.sheetName ? `${row.sheetName}!${row.rowNumber}` : row.rowNumber))
+          .join(', ');
+        groupRows.forEach((row) =>
+          record({
+            bucket: 'failed',
+            payload: toResult(
+              row,
+              `Same item/location with different adjustment reasons. Conflicting rows: ${rowNumbers}`,
+            ),
+          }),
+        );
+        return;
+      }
+
+      const [representative, ...others] = groupRows;
+      const total = groupRows.reduce((sum, row) => sum + row.quantity, 0);
+      if (total === 0) {
+        record({
+          bucket: 'skipped',
+          payload: toResult(representative, 'Movements for same item/location cancel out'),
+        });
+      } else {
+        mergedRows.push({
+          ...representative,
+          quantity: total,
+          calculationSource: 'aggregated_movements',
+        });
+      }
+      others.forEach((row) =>
+        record({
+          bucket: 'skipped',
+          payload: toResult(row, 'Aggregated with other movements for same item/location'),
+        }),
+      );
+    });
+
+    return mergedRows;
+  }
+
   private deduplicateRows(
     rows: ParsedInventoryRow[],
-    summary: InventorySyncSummary,
+    record: (outcome: RowOutcome) => void,
   ): ParsedInventoryRow[] {
     const groupedByIdentifierAndLocation = new Map<string, ParsedInventoryRow[]>();
 
@@ -248,7 +928,7 @@ export class InventoryService {
       const locationKey = row.shopifyLocationName
         ? row.shopifyLocationName.toLowerCase()
         : '__auto__';
-      const key = `${this.buildIdentifierKey(row)}::${locationKey}`;
+      const key = `${this.buildIdentifierKey(row)}::${locationKey}::${row.quantityName}`;
       const existing = groupedByIdentifierAndLocation.get(key) || [];
       existing.push(row);
       groupedByIdentifierAndLocation.set(key, existing);
@@ -282,30 +962,42 @@ export class InventoryService {
 
         for (let i = 1; i < groupRows.length; i += 1) {
           const row = groupRows[i];
-          summary.skipped.push({
-            rowNumber: row.rowNumber,
-            sku: row.sku,
-            itemName: row.title,
-            locationName: row.shopifyLocationName,
-            quantity: row.quantity,
-            reason: `Aggregated with other bins for same item/location`,
-            calculationSource: row.calculationSource,
+          record({
+            bucket: 'skipped',
+            payload: {
+              rowNumber: row.rowNumber,
+              sheetName: row.sheetName,
+              sku: row.sku,
+              itemName: row.title,
+              locationName: row.shopifyLocationName,
+              quantity: row.quantity,
+              reason: `Aggregated with other bins for same item/location`,
+              calculationSource: row.calculationSource,
+              quantityName: row.quantityName,
+            },
           });
         }
 
         return;
       }
 
-      const rowNumbers = groupRows.map((row) => row.rowNumber).join(', ');
+      const rowNumbers = groupRows
+        .map((row) => (row.sheetName ? `${row.sheetName}!${row.rowNumber}` : row.rowNumber))
+        .join(', ');
       groupRows.forEach((row) => {
-        summary.failed.push({
-          rowNumber: row.rowNumber,
-          sku: row.sku,
-          itemName: row.title,
-          locationName: row.shopifyLocationName,
-          quantity: row.quantity,
-          reason: `Duplicate item/location in file. Conflicting rows: ${rowNumbers}`,
-          calculationSource: row.calculationSource,
+        record({
+          bucket: 'failed',
+          payload: {
+            rowNumber: row.rowNumber,
+            sheetName: row.sheetName,
+            sku: row.sku,
+            itemName: row.title,
+            locationName: row.shopifyLocationName,
+            quantity: row.quantity,
+            reason: `Duplicate item/location in file. Conflicting rows: ${rowNumbers}`,
+            calculationSource: row.calculationSource,
+            quantityName: row.quantityName,
+          },
         });
       });
     });
@@ -313,9 +1005,12 @@ export class InventoryService {
     return uniqueRows;
   }
 
-  private async resolveVariant(row: ParsedInventoryRow): Promise<VariantResolution> {
+  private async resolveVariant(
+    row: ParsedInventoryRow,
+    lookup: VariantLookup,
+  ): Promise<VariantResolution> {
     if (row.sku) {
-      const variant = await this.shopifyService.getVariantBySku(row.sku);
+      const variant = await lookup.getVariantBySku(row.sku);
       if (variant) {
         return {
           variant: {
@@ -327,7 +1022,7 @@ export class InventoryService {
     }
 
     if (row.itemCode) {
-      const variant = await this.shopifyService.getVariantBySku(row.itemCode);
+      const variant = await lookup.getVariantBySku(row.itemCode);
       if (variant) {
         return {
           variant: {
@@ -339,7 +1034,7 @@ export class InventoryService {
     }
 
     if (row.variantBarcode) {
-      const variant = await this.shopifyService.getVariantByBarcode(row.variantBarcode);
+      const variant = await lookup.getVariantByBarcode(row.variantBarcode);
       if (variant) {
         return {
           variant: {
@@ -351,7 +1046,7 @@ export class InventoryService {
     }
 
     if (row.handle) {
-      const variants = await this.shopifyService.getVariantsByHandle(row.handle);
+      const variants = await lookup.getVariantsByHandle(row.handle);
       if (!variants.length) {
         return { variant: null, reason: `No product found for handle "${row.handle}"` };
       }
@@ -391,7 +1086,7 @@ export class InventoryService {
     }
 
     if (row.title) {
-      const variants = await this.shopifyService.getVariantsByTitle(row.title);
+      const variants = await lookup.getVariantsByTitle(row.title);
       if (!variants.length) {
         return { variant: null, reason: `No product found for title "${row.title}"` };
       }
@@ -448,8 +1143,18 @@ export class InventoryService {
       .toLowerCase()}|opts:${optionsKey}`;
   }
 
-  private buildLocationMap(locations: ShopifyLocation[]): Map<string, string> {
+  // Lower-cased Shopify location names and aliases -> location ID. Real names win over an
+  // alias spelled the same; aliases to locations that no longer exist are ignored.
+  private buildLocationMap(
+    locations: ShopifyLocation[],
+    aliases: Map<string, string> = new Map(),
+  ): Map<string, string> {
     const map = new Map<string, string>();
+    aliases.forEach((locationId, alias) => {
+      if (locations.some((location) => location.id === locationId)) {
+        map.set(alias, locationId);
+      }
+    });
     locations.forEach((location) => {
       map.set(location.name.trim().toLowerCase(), location.id);
     });
@@ -457,47 +1162,85 @@ export class InventoryService {
   }
 
   private async resolveLocationForRow(
+    shopify: ShopifyService,
     row: ParsedInventoryRow,
     inventoryItemId: string,
     locations: ShopifyLocation[],
     locationsMap: Map<string, string>,
-  ): Promise<ShopifyLocation | null> {
+  ): Promise<LocationResolution> {
     const requestedName = row.shopifyLocationName.trim();
     if (requestedName) {
       const locationId = locationsMap.get(requestedName.toLowerCase());
-      if (!locationId) {
-        return null;
+      const location = locations.find((candidate) => candidate.id === locationId);
+      if (!location) {
+        return {
+          location: null,
+          reason: this.unknownLocationReason(requestedName, locations, locationsMap),
+        };
       }
 
-      return locations.find((location) => location.id === locationId) || null;
+      return { location };
     }
 
     if (locations.length === 1) {
-      return locations[0];
+      return { location: locations[0] };
     }
 
-    const itemLocationIds = await this.shopifyService.getInventoryItemLocationIds(
+    const itemLocationIds = await shopify.getInventoryItemLocationIds(
       inventoryItemId,
     );
     const uniqueItemLocationIds = [...new Set(itemLocationIds)];
     if (uniqueItemLocationIds.length === 1) {
       const match = locations.find((location) => location.id === uniqueItemLocationIds[0]);
       if (match) {
-        return match;
+        return { location: match };
       }
     }
 
-    const defaultLocationName = APP_CONFIG.shopify.defaultLocationName.trim().toLowerCase();
+    const defaultLocationName = shopify.defaultLocationName.trim();
     if (defaultLocationName) {
-      const defaultLocationId = locationsMap.get(defaultLocationName);
-      if (!defaultLocationId) {
-        return null;
+      const defaultLocationId = locationsMap.get(defaultLocationName.toLowerCase());
+      const location = locations.find((candidate) => candidate.id === defaultLocationId);
+      if (!location) {
+        return {
+          location: null,
+          reason: `Default location: ${this.unknownLocationReason(
+            defaultLocationName,
+            locations,
+            locationsMap,
+          )}`,
+        };
       }
 
-      return locations.find((location) => location.id === defaultLocationId) || null;
+      return { location };
     }
 
-    return null;
+    return { location: null };
+  }
+
+  private unknownLocationReason(
+    name: string,
+    locations: ShopifyLocation[],
+    locationsMap: Map<string, string>,
+  ): string {
+    const reason = `Unknown location "${name}": not a Shopify location name or location alias`;
+    const closestKey = closestLocationKey(name, [...locationsMap.keys()]);
+    const suggestion = locations.find(
+      (location) => closestKey !== null && location.id === locationsMap.get(closestKey),
+    );
+
+    return suggestion
+      ? `${reason}. Did you mean "${suggestion.name}"?`
+      : `${reason}. Add an alias under Location Aliases`;
+  }
+
+  private groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    items.forEach((item) => {
+      groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+    });
+
+    return groups;
   }
 
   private chunk<T>(items: T[], size: number): T[][] {
@@ -511,6 +1254,13 @@ export class InventoryService {
     return result;
   }
 
+  // An open circuit stops the whole job instead of failing every remaining row.
+  private rethrowIfUnavailable(error: unknown): void {
+    if (error instanceof ShopifyUnavailableError) {
+      throw error;
+    }
+  }
+
   private getErrorMessage(error: unknown): string {
     if (error instanceof Error) {
       return error.message;
@@ -518,8 +1268,4 @@ export class InventoryService {
 
     return String(error);
   }
-
-  private async delay(ms: number): Promise<void> {
-    await new Promise((resolve) => setTimeout(resolve, ms));
-  }
 }
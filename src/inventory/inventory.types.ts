@@ -1,29 +1,347 @@
+import type { InventoryQuantityName } from '../services/shopify.service';
+
 export interface ParsedInventoryRow {
   rowNumber: number;
+  // Set when several sheets are parsed, so rows can be traced back to their tab.
+  sheetName?: string;
   sku: string;
   itemCode: string;
   handle: string;
   variantBarcode: string;
   title: string;
   optionValues: string[];
+  // Target quantity, or the signed change to apply in adjust mode.
   quantity: number;
+  // Shopify quantity the row writes; one file row yields a row per state column it fills.
+  quantityName: InventoryQuantityName;
   calculationSource: string;
+  // Adjust mode: reason code from the file's reason column, when it has one.
+  adjustReason?: string;
   shopifyLocationName: string;
   binName: string;
 }
 
 export interface ResultRow {
   rowNumber: number;
+  sheetName?: string;
   sku: string;
   itemName: string;
   locationName: string;
   quantity: number;
   reason: string;
   calculationSource?: string;
+  // Quantity name (inventory state) the row targets; missing means available.
+  quantityName?: InventoryQuantityName;
+  // Shopify quantity read before the write; null when no inventory level existed yet.
+  previousQuantity?: number | null;
+  inventoryItemId?: string;
+  locationId?: string;
+  // Conflict rows: the quantity the write was conditioned on and the live value Shopify had.
+  expectedQuantity?: number | null;
+  liveQuantity?: number | null;
+  // Failed and conflict rows: the file row's original cells, for the failed-rows export.
+  sourceRow?: Record<string, unknown>;
+  // Set-mode rows: the file's own quantity. allocationRule names the rule that changed what
+  // is published; quantity is then the published value.
+  fileQuantity?: number;
+  allocationRule?: string;
+}
+
+export interface PlannedChange {
+  rowNumber: number;
+  sheetName?: string;
+  sku: string;
+  itemName: string;
+  inventoryItemId: string;
+  locationId: string;
+  locationName: string;
+  quantityName: InventoryQuantityName;
+  currentQuantity: number | null;
+  targetQuantity: number;
+  delta: number;
+  calculationSource?: string;
+  // Adjust mode: the reason code the change is sent with.
+  adjustReason?: string;
+  // As on ResultRow: targetQuantity is what the allocation rule left of fileQuantity.
+  fileQuantity?: number;
+  allocationRule?: string;
 }
 
 export interface InventorySyncSummary {
   updated: ResultRow[];
   failed: ResultRow[];
   skipped: ResultRow[];
+  // Safe-write rows not written because the stock moved after it was read.
+  conflict: ResultRow[];
+  // Only present for dry runs: the writes that would have been sent to Shopify.
+  planned?: PlannedChange[];
+}
+
+// Source column names (header aliases) feeding each parsed field, in priority order.
+export interface ColumnMapping {
+  sku: string[];
+  itemCode: string[];
+  handle: string[];
+  title: string[];
+  barcode: string[];
+  optionValues: string[];
+  location: string[];
+  bin: string[];
+  closingStock: string[];
+  openingStock: string[];
+  stockMovement: string[];
+  inward: string[];
+  outward: string[];
+  // Columns holding other Shopify quantity states. Optional because profiles saved
+  // before state support do not have them.
+  onHand?: string[];
+  damaged?: string[];
+  qualityControl?: string[];
+  safetyStock?: string[];
+  reserved?: string[];
+  // Adjust mode: per-row reason code (received, restock, damaged, ...).
+  // Optional because profiles saved before adjust mode do not have it.
+  adjustReason?: string[];
+}
+
+export interface MappingProfile {
+  name: string;
+  description: string;
+  builtIn: boolean;
+  columns: ColumnMapping;
+  updatedAt?: string;
+}
+
+// single: parse one sheet (the first unless `sheet` is given).
+// all: parse every sheet; the sheet name is the location for rows without one.
+export type SheetMode = 'single' | 'all';
+
+// set: write the file quantity as the new absolute value (default).
+// adjust: apply the file's movement columns as relative changes.
+export type QuantityMode = 'set' | 'adjust';
+
+export interface SheetSelection {
+  sheet?: string;
+  mode?: SheetMode;
+}
+
+export interface UploadOptions {
+  // Configured store name; the default store when omitted.
+  store?: string;
+  fanOutId?: string;
+  dryRun?: boolean;
+  mappingProfile?: MappingProfile;
+  sheet?: string;
+  sheetMode?: SheetMode;
+  // Resolve variants from the cached bulk-operation catalog instead of per-row searches.
+  useCatalogSnapshot?: boolean;
+  quantityMode?: QuantityMode;
+  // Adjust mode: reason code for rows without their own; defaults to "correction".
+  adjustReason?: string;
+  // Condition each write on the quantity read during planning (compareQuantity).
+  safeWrite?: boolean;
+  onConflict?: ConflictPolicy;
+  // Who started the upload, recorded on the job.
+  user?: string;
+  // Refuse to write more quantities than this (large uploads need an approver).
+  maxChanges?: number;
+  // Job running the upload; names the ledger document of non-available adjustments.
+  jobId?: string;
+}
+
+export interface InventoryExportFilters {
+  store?: string;
+  // Location names; every location when empty.
+  locations?: string[];
+  vendor?: string;
+  productType?: string;
+  // Collection ID or handle.
+  collection?: string;
+}
+
+export type ResultBucket = 'updated' | 'failed' | 'skipped' | 'conflict';
+
+// review: report conflicts for a person to check; retry: re-read the live value and write again.
+export type ConflictPolicy = 'review' | 'retry';
+
+export type InventoryJobPhase =
+  | 'queued'
+  | 'parsing'
+  | 'loading_catalog'
+  | 'resolving_variants'
+  | 'planning'
+  | 'writing'
+  | 'done';
+
+export type InventoryJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type InventorySyncEvent =
+  | { type: 'phase'; phase: InventoryJobPhase }
+  | { type: 'progress'; phase: InventoryJobPhase; processed: number; total: number }
+  | { type: 'row'; bucket: ResultBucket; row: ResultRow }
+  | { type: 'planned'; row: PlannedChange };
+
+export type InventoryJobEvent =
+  | InventorySyncEvent
+  | { type: 'status'; status: InventoryJobStatus; error?: string };
+
+export type InventoryJobKind = 'upload' | 'rollback';
+
+export interface InventoryJob {
+  id: string;
+  kind: InventoryJobKind;
+  // For rollback jobs: the history record being reverted.
+  rollbackOf?: string;
+  store: string;
+  // Shared by the jobs created when one file fans out to several stores.
+  fanOutId?: string;
+  fileName: string;
+  fileHash: string;
+  mappingProfile: string;
+  dryRun: boolean;
+  quantityMode: QuantityMode;
+  // Signed-in user or API key that started the job; missing with authentication off.
+  user?: string;
+  status: InventoryJobStatus;
+  phase: InventoryJobPhase;
+  processedRows: number;
+  totalRows: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  summary: InventorySyncSummary;
+}
+
+export interface SyncHistoryEntry {
+  id: string;
+  kind: InventoryJobKind;
+  rollbackOf?: string;
+  // Missing on records written before multi-store support (default store).
+  store?: string;
+  fanOutId?: string;
+  fileName: string;
+  fileHash: string;
+  mappingProfile: string;
+  dryRun: boolean;
+  // Missing on records written before adjust mode (set).
+  quantityMode?: QuantityMode;
+  user?: string;
+  status: InventoryJobStatus;
+  error?: string;
+  startedAt: string;
+  finishedAt: string;
+  rowCount: number;
+  counts: {
+    updated: number;
+    failed: number;
+    skipped: number;
+    // Missing on records written before safe-write mode.
+    conflict?: number;
+    planned: number;
+  };
+}
+
+export interface SyncHistoryRecord extends SyncHistoryEntry {
+  summary: InventorySyncSummary;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  at: string;
+  durationMs: number;
+  // Missing when no response arrived (network error or timeout).
+  statusCode?: number;
+  error?: string;
+  // First characters of the receiver's response, for debugging.
+  responseBody?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook: string;
+  url: string;
+  event: string;
+  jobId?: string;
+  status: WebhookDeliveryStatus;
+  createdAt: string;
+  nextAttemptAt?: string;
+  attempts: WebhookDeliveryAttempt[];
+  payload: WebhookPayload;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: string;
+  createdAt: string;
+  job: {
+    id: string;
+    kind: InventoryJobKind;
+    store: string;
+    fileName: string;
+    quantityMode: QuantityMode;
+    user?: string;
+    status: InventoryJobStatus;
+    error?: string;
+    startedAt?: string;
+    finishedAt?: string;
+    // Job API resource and the history page entry.
+    url: string;
+    historyUrl: string;
+  };
+  counts: SyncHistoryEntry['counts'];
+  topFailureReasons: Array<{ reason: string; count: number }>;
+}
+
+// importing: a job was started and the file has not been moved yet. A file whose hash
+// matches an earlier import for the same store is not applied again (duplicate).
+export type InboxImportStatus = 'importing' | 'done' | 'failed' | 'duplicate';
+
+export interface InboxImport {
+  id: string;
+  folder: string;
+  fileName: string;
+  fileHash: string;
+  store: string;
+  jobId?: string;
+  status: InboxImportStatus;
+  // Why the file went to failed/: the job error, or the earlier import it duplicates.
+  reason?: string;
+  counts?: SyncHistoryEntry['counts'];
+  detectedAt: string;
+  finishedAt?: string;
+  // Where the file and its report were moved, relative to the watched folder.
+  movedTo?: string;
+}
+
+// A location code or name used in files, mapped to a location of one store. Shopify
+// location names always take precedence over aliases.
+export interface LocationAlias {
+  alias: string;
+  store: string;
+  locationId: string;
+  // Shopify name when the alias was saved; shown in lists only.
+  locationName: string;
+  updatedAt: string;
+}
+
+// Limits what a set-mode upload publishes to "available", e.g. keeping the last units for the
+// shop floor. A rule applies to rows matching all of its filters (an omitted filter matches
+// everything); the first matching rule in the list wins.
+export interface AllocationRule {
+  name: string;
+  // Filters; names compare case-insensitively and a product matches if it has any listed tag.
+  stores?: string[];
+  locations?: string[];
+  vendors?: string[];
+  productTypes?: string[];
+  tags?: string[];
+  // Glob matched against the SKU: * for any run of characters, ? for one character.
+  skuPattern?: string;
+  // Applied in this order: units held back, share of the rest published (rounded down),
+  // then the most that may be published.
+  buffer?: number;
+  percentage?: number;
+  maxPublish?: number;
 }
@@ -0,0 +1,32 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, Post, Query } from '@nestjs/common';
+import { RequireRole } from '../auth/auth.decorators';
+import { WebhookDeliveriesQueryDto } from './inventory.dto';
+import { WebhookDelivery } from './inventory.types';
+import { JobWebhooksService, WebhookEndpointSummary } from './job-webhooks.service';
+
+@Controller('inventory/webhooks')
+export class JobWebhooksController {
+  constructor(private readonly webhooksService: JobWebhooksService) {}
+
+  @Get()
+  list(): WebhookEndpointSummary[] {
+    return this.webhooksService.listEndpoints();
+  }
+
+  @Get('deliveries')
+  listDeliveries(@Query() query: WebhookDeliveriesQueryDto): Promise<WebhookDelivery[]> {
+    return this.webhooksService.listDeliveries(query);
+  }
+
+  @Get('deliveries/:id')
+  getDelivery(@Param('id') id: string): Promise<WebhookDelivery> {
+    return this.webhooksService.getDelivery(id);
+  }
+
+  @Post(':name/test')
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.ACCEPTED)
+  sendTest(@Param('name') name: string): Promise<WebhookDelivery> {
+    return this.webhooksService.sendTest(name);
+  }
+}
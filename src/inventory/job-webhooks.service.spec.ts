@@ -0,0 +1,101 @@
+import { AppConfig } from '../config/shopify.config';
+import { FileStoreService } from '../services/file-store.service';
+import { WebhookDelivery } from './inventory.types';
+import { JobWebhooksService } from './job-webhooks.service';
+
+const RETRY_MAX_DELAY_MS = 50;
+
+describe('JobWebhooksService', () => {
+  let fetchMock: jest.SpyInstance;
+  let retryScheduled: Promise<WebhookDelivery>;
+  let finished: Promise<WebhookDelivery>;
+  let service: JobWebhooksService;
+
+  beforeEach(() => {
+    let resolveRetry: (delivery: WebhookDelivery) => void;
+    let resolveFinished: (delivery: WebhookDelivery) => void;
+    retryScheduled = new Promise((resolve) => (resolveRetry = resolve));
+    finished = new Promise((resolve) => (resolveFinished = resolve));
+
+    // Stands in for the delivery log and reports when a retry is scheduled and when the
+    // delivery settles.
+    const fileStore = {
+      updateJson: jest.fn(
+        async (
+          _path: string,
+          _fallback: WebhookDelivery[],
+          update: (deliveries: WebhookDelivery[]) => WebhookDelivery[],
+        ) => {
+          const [delivery] = update([]);
+          if (delivery.nextAttemptAt) {
+            resolveRetry(JSON.parse(JSON.stringify(delivery)));
+          }
+          if (delivery.status !== 'pending') {
+            resolveFinished(delivery);
+          }
+        },
+      ),
+    } as unknown as FileStoreService;
+
+    fetchMock = jest.spyOn(global, 'fetch');
+    service = new JobWebhooksService(
+      {
+        port: 3000,
+        publicUrl: '',
+        webhooks: {
+          endpoints: [
+            {
+              name: 'erp',
+              url: 'https://erp.example.com/hooks/inventory',
+              secret: 'secret',
+              events: ['job.completed'],
+              failureThreshold: 0,
+            },
+          ],
+          maxAttempts: 2,
+          retryBaseDelayMs: 10,
+          retryMaxDelayMs: RETRY_MAX_DELAY_MS,
+          timeoutMs: 1000,
+        },
+      } as unknown as AppConfig,
+      fileStore,
+    );
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  it('caps a receiver Retry-After at the maximum retry delay', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        new Response('busy', { status: 503, headers: { 'Retry-After': '3600' } }),
+      )
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+
+    await service.sendTest('erp');
+    const retry = await retryScheduled;
+
+    // The second attempt is due within the cap, not the hour the receiver asked for.
+    const [attempt] = retry.attempts;
+    const waitMs = Date.parse(retry.nextAttemptAt!) - Date.parse(attempt.at) - attempt.durationMs;
+    expect(waitMs).toBeLessThanOrEqual(RETRY_MAX_DELAY_MS + 1000);
+    expect((await finished).status).toBe('delivered');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry a receiver that rejected the payload', async () => {
+    fetchMock.mockResolvedValueOnce(new Response('bad request', { status: 400 }));
+
+    await service.sendTest('erp');
+    const delivery = await finished;
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(delivery).toEqual(
+      expect.objectContaining({
+        status: 'failed',
+        attempts: [expect.objectContaining({ statusCode: 400, responseBody: 'bad request' })],
+      }),
+    );
+  });
+});
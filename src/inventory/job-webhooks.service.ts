@@ -0,0 +1,315 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { createHmac, randomUUID } from 'crypto';
+import {
+  AppConfig,
+  appConfig,
+  WebhookEndpointConfig,
+  WebhookEvent,
+  WebhooksConfig,
+} from '../config/shopify.config';
+import { FileStoreService } from '../services/file-store.service';
+import { computeBackoffMs, parseRetryAfter } from '../services/shopify-retry-policy';
+import { countSummary } from './inventory-history.service';
+import {
+  InventoryJob,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+} from './inventory.types';
+
+const DELIVERIES_FILE = 'webhooks/deliveries.json';
+// Newest deliveries kept in the log; older ones are dropped.
+const MAX_LOGGED_DELIVERIES = 500;
+const TOP_FAILURE_REASONS = 5;
+const RESPONSE_SNIPPET_LENGTH = 500;
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+
+export interface WebhookEndpointSummary {
+  name: string;
+  url: string;
+  events: WebhookEvent[];
+  failureThreshold: number;
+}
+
+export interface WebhookDeliveryFilters {
+  jobId?: string;
+  webhook?: string;
+  status?: WebhookDeliveryStatus;
+}
+
+// Notifies configured receivers when jobs finish. Each request is HMAC-signed and retried
+// with backoff; every attempt is logged so a misbehaving receiver can be debugged.
+// Retries run in memory, so deliveries still pending at shutdown are not resumed.
+@Injectable()
+export class JobWebhooksService {
+  private readonly logger = new Logger(JobWebhooksService.name);
+  private readonly config: WebhooksConfig;
+  private readonly baseUrl: string;
+
+  constructor(
+    @Inject(appConfig.KEY) config: AppConfig,
+    private readonly fileStore: FileStoreService,
+  ) {
+    this.config = config.webhooks;
+    this.baseUrl = (config.publicUrl || `http://localhost:${config.port}`).replace(/\/+$/, '');
+  }
+
+  listEndpoints(): WebhookEndpointSummary[] {
+    return this.config.endpoints.map(({ name, url, events, failureThreshold }) => ({
+      name,
+      url,
+      events,
+      failureThreshold,
+    }));
+  }
+
+  // Previews change nothing, so only real uploads and rollbacks notify.
+  notifyJobFinished(job: InventoryJob): void {
+    if (job.dryRun) {
+      return;
+    }
+
+    this.config.endpoints.forEach((endpoint) => {
+      this.eventsFor(job, endpoint).forEach((event) => {
+        void this.dispatch(endpoint, event, this.buildPayload(job, event), job.id);
+      });
+    });
+  }
+
+  // Sends a sample payload regardless of the endpoint's event list.
+  async sendTest(name: string): Promise<WebhookDelivery> {
+    const endpoint = this.config.endpoints.find(
+      (candidate) => candidate.name.toLowerCase() === name.trim().toLowerCase(),
+    );
+    if (!endpoint) {
+      throw new NotFoundException(`Webhook "${name}" is not configured`);
+    }
+
+    const now = new Date().toISOString();
+    const sample: InventoryJob = {
+      id: 'test',
+      kind: 'upload',
+      store: 'test',
+      fileName: 'test.csv',
+      fileHash: '',
+      mappingProfile: 'default',
+      dryRun: false,
+      quantityMode: 'set',
+      status: 'completed',
+      phase: 'done',
+      processedRows: 0,
+      totalRows: 0,
+      createdAt: now,
+      startedAt: now,
+      finishedAt: now,
+      summary: { updated: [], failed: [], skipped: [], conflict: [] },
+    };
+
+    return this.dispatch(endpoint, 'webhook.test', this.buildPayload(sample, 'webhook.test'));
+  }
+
+  async listDeliveries(filters: WebhookDeliveryFilters = {}): Promise<WebhookDelivery[]> {
+    const deliveries = await this.fileStore.readJson<WebhookDelivery[]>(DELIVERIES_FILE, []);
+    return deliveries.filter(
+      (delivery) =>
+        (!filters.jobId || delivery.jobId === filters.jobId) &&
+        (!filters.webhook || delivery.webhook.toLowerCase() === filters.webhook.toLowerCase()) &&
+        (!filters.status || delivery.status === filters.status),
+    );
+  }
+
+  async getDelivery(id: string): Promise<WebhookDelivery> {
+    const delivery = (await this.listDeliveries()).find((candidate) => candidate.id === id);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+
+    return delivery;
+  }
+
+  private eventsFor(job: InventoryJob, endpoint: WebhookEndpointConfig): WebhookEvent[] {
+    if (job.status === 'failed') {
+      return endpoint.events.filter((event) => event === 'job.failed');
+    }
+
+    const failures = job.summary.failed.length + job.summary.conflict.length;
+    return endpoint.events.filter(
+      (event) =>
+        event === 'job.completed' ||
+        (event === 'job.failures_exceeded' && failures > endpoint.failureThreshold),
+    );
+  }
+
+  private buildPayload(job: InventoryJob, event: string): WebhookPayload {
+    const reasons = new Map<string, number>();
+    [...job.summary.failed, ...job.summary.conflict].forEach((row) => {
+      reasons.set(row.reason, (reasons.get(row.reason) ?? 0) + 1);
+    });
+
+    return {
+      id: randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      job: {
+        id: job.id,
+        kind: job.kind,
+        store: job.store,
+        fileName: job.fileName,
+        quantityMode: job.quantityMode,
+        ...(job.user ? { user: job.user } : {}),
+        status: job.status,
+        ...(job.error ? { error: job.error } : {}),
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+        url: `${this.baseUrl}/inventory/jobs/${job.id}`,
+        historyUrl: `${this.baseUrl}/inventory/history-ui?id=${job.id}`,
+      },
+      counts: countSummary(job.summary),
+      topFailureReasons: [...reasons.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_FAILURE_REASONS)
+        .map(([reason, count]) => ({ reason, count })),
+    };
+  }
+
+  // Logs the delivery, then attempts it in the background; returns the pending record.
+  private async dispatch(
+    endpoint: WebhookEndpointConfig,
+    event: string,
+    payload: WebhookPayload,
+    jobId?: string,
+  ): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: payload.id,
+      webhook: endpoint.name,
+      url: endpoint.url,
+      event,
+      ...(jobId ? { jobId } : {}),
+      status: 'pending',
+      createdAt: payload.createdAt,
+      attempts: [],
+      payload,
+    };
+
+    try {
+      await this.saveDelivery(delivery);
+    } catch (error: unknown) {
+      this.logger.error(`Could not log webhook delivery ${delivery.id}: ${describeError(error)}`);
+    }
+
+    void this.deliver(endpoint, delivery);
+    return delivery;
+  }
+
+  private async deliver(endpoint: WebhookEndpointConfig, delivery: WebhookDelivery): Promise<void> {
+    const body = JSON.stringify(delivery.payload);
+
+    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt += 1) {
+      const { result, retryable, retryAfterMs } = await this.send(endpoint, delivery, body);
+      delivery.attempts.push(result);
+
+      const done = !retryable || attempt === this.config.maxAttempts;
+      if (result.statusCode !== undefined && result.statusCode >= 200 && result.statusCode < 300) {
+        delivery.status = 'delivered';
+      } else if (done) {
+        delivery.status = 'failed';
+      }
+
+      const delayMs = done
+        ? 0
+        : computeBackoffMs(
+            attempt,
+            this.config.retryBaseDelayMs,
+            this.config.retryMaxDelayMs,
+            // A receiver's Retry-After cannot hold a delivery longer than our own backoff cap.
+            Math.min(retryAfterMs ?? 0, this.config.retryMaxDelayMs),
+          );
+      delivery.nextAttemptAt =
+        delivery.status === 'pending' ? new Date(Date.now() + delayMs).toISOString() : undefined;
+      await this.saveDelivery(delivery).catch((error: unknown) =>
+        this.logger.error(`Could not log webhook delivery ${delivery.id}: ${describeError(error)}`),
+      );
+
+      if (delivery.status !== 'pending') {
+        const outcome = `${delivery.status} after ${attempt} attempt(s)`;
+        if (delivery.status === 'delivered') {
+          this.logger.log(`Webhook ${endpoint.name} ${delivery.event} ${outcome}`);
+        } else {
+          this.logger.warn(`Webhook ${endpoint.name} ${delivery.event} ${outcome}`);
+        }
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  private async send(
+    endpoint: WebhookEndpointConfig,
+    delivery: WebhookDelivery,
+    body: string,
+  ): Promise<{ result: WebhookDeliveryAttempt; retryable: boolean; retryAfterMs?: number }> {
+    const startedAt = Date.now();
+    const timestamp = Math.floor(startedAt / 1000).toString();
+    const signature = createHmac('sha256', endpoint.secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'shopify-inventory-updater',
+          'X-Inventory-Event': delivery.event,
+          'X-Inventory-Delivery': delivery.id,
+          'X-Inventory-Timestamp': timestamp,
+          'X-Inventory-Signature': `sha256=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      const text = await response.text().catch(() => '');
+
+      return {
+        result: {
+          at: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          statusCode: response.status,
+          ...(text ? { responseBody: text.slice(0, RESPONSE_SNIPPET_LENGTH) } : {}),
+        },
+        retryable: RETRYABLE_STATUS_CODES.has(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+      };
+    } catch (error: unknown) {
+      // Network failures and timeouts are worth another try.
+      return {
+        result: {
+          at: new Date(startedAt).toISOString(),
+          durationMs: Date.now() - startedAt,
+          error: describeError(error),
+        },
+        retryable: true,
+      };
+    }
+  }
+
+  private async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.fileStore.updateJson<WebhookDelivery[]>(DELIVERIES_FILE, [], (deliveries) =>
+      [delivery, ...deliveries.filter((existing) => existing.id !== delivery.id)].slice(
+        0,
+        MAX_LOGGED_DELIVERIES,
+      ),
+    );
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    const cause = (error as Error & { cause?: unknown }).cause;
+    return cause instanceof Error ? `${error.message} (${cause.message})` : error.message;
+  }
+
+  return String(error);
+}
@@ -0,0 +1,122 @@
+import { UI_SESSION_JS } from './ui-session.client';
+import { UI_TABLES_JS } from './ui-tables.client';
+
+export const LOCATION_ALIASES_UI_CLIENT_JS = `${UI_TABLES_JS}${UI_SESSION_JS}
+const storeSelect = document.getElementById('storeSelect');
+const aliasesWrap = document.getElementById('aliasesWrap');
+const formTitle = document.getElementById('formTitle');
+const aliasInput = document.getElementById('field-alias');
+const locationSelect = document.getElementById('field-location');
+const saveBtn = document.getElementById('saveBtn');
+const newBtn = document.getElementById('newBtn');
+const deleteBtn = document.getElementById('deleteBtn');
+const statusEl = document.getElementById('status');
+
+let aliases = [];
+let editing = null;
+
+const setStatus = (text, cls) => {
+  statusEl.textContent = text;
+  statusEl.className = 'status ' + (cls || 'muted');
+};
+
+const storeQuery = () => '?store=' + encodeURIComponent(storeSelect.value);
+
+const fillForm = (alias) => {
+  editing = alias ? alias.alias : null;
+  formTitle.textContent = alias ? 'Edit alias "' + alias.alias + '"' : 'New alias';
+  aliasInput.value = alias ? alias.alias : '';
+  aliasInput.disabled = Boolean(alias);
+  if (alias) locationSelect.value = alias.locationId;
+  deleteBtn.hidden = !alias;
+  setStatus('');
+};
+
+const aliasesTableHtml = (rows) => {
+  if (!rows.length) return '<span class="muted">No aliases for this store yet.</span>';
+  const names = new Map([...locationSelect.options].map((o) => [o.value, o.textContent]));
+  const body = rows.map((a) => '<tr class="clickable" data-alias="' + esc(a.alias) + '">' +
+    '<td>' + esc(a.alias) + '</td>' +
+    // The saved name is only a fallback for locations that have since been removed.
+    '<td>' + esc(names.get(a.locationId) || a.locationName + ' (no longer in Shopify)') + '</td>' +
+    '<td>' + esc(new Date(a.updatedAt).toLocaleString()) + '</td>' +
+  '</tr>').join('');
+  return '<table><thead><tr><th>Alias</th><th>Shopify location</th><th>Updated</th></tr></thead><tbody>' + body + '</tbody></table>';
+};
+
+const loadAliases = async () => {
+  const [aliasesRes, locationsRes] = await Promise.all([
+    fetch('/inventory/location-aliases' + storeQuery()),
+    fetch('/inventory/location-aliases/locations' + storeQuery()),
+  ]);
+  const locations = await locationsRes.json().catch(() => []);
+  aliases = await aliasesRes.json().catch(() => []);
+  if (!aliasesRes.ok || !locationsRes.ok) {
+    aliasesWrap.textContent = (aliasesRes.ok ? locations : aliases).message || 'Could not load aliases.';
+    return;
+  }
+
+  locationSelect.innerHTML = locations
+    .map((l) => '<option value="' + esc(l.id) + '">' + esc(l.name) + '</option>')
+    .join('');
+  aliasesWrap.innerHTML = aliasesTableHtml(aliases);
+};
+
+aliasesWrap.addEventListener('click', (event) => {
+  const row = event.target.closest('tr[data-alias]');
+  const alias = row && aliases.find((a) => a.alias === row.dataset.alias);
+  if (alias) fillForm(alias);
+});
+
+storeSelect.addEventListener('change', () => loadAliases().then(() => fillForm(null)));
+
+newBtn.addEventListener('click', () => fillForm(null));
+
+saveBtn.addEventListener('click', async () => {
+  const name = editing || aliasInput.value.trim();
+  if (!name) {
+    setStatus('Enter the code or name used in your files.', 'err');
+    return;
+  }
+
+  const res = await fetch('/inventory/location-aliases/' + encodeURIComponent(name), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ store: storeSelect.value, locationId: locationSelect.value }),
+  });
+  const data = await res.json().catch(() => ({}));
+
+  if (!res.ok) {
+    setStatus([].concat(data.message || 'Save failed.').join('; '), 'err');
+    return;
+  }
+
+  await loadAliases();
+  fillForm(data);
+  setStatus('Saved.', 'ok');
+});
+
+deleteBtn.addEventListener('click', async () => {
+  if (!editing || !confirm('Delete alias "' + editing + '"?')) return;
+  const res = await fetch('/inventory/location-aliases/' + encodeURIComponent(editing) + storeQuery(), { method: 'DELETE' });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    setStatus(data.message || 'Delete failed.', 'err');
+    return;
+  }
+
+  await loadAliases();
+  fillForm(null);
+  setStatus('Deleted.', 'ok');
+});
+
+fetch('/inventory/stores')
+  .then((res) => res.json())
+  .then((stores) => {
+    storeSelect.innerHTML = stores
+      .map((s) => '<option value="' + esc(s.name) + '"' + (s.isDefault ? ' selected' : '') + '>' + esc(s.name) + '</option>')
+      .join('');
+    return loadAliases();
+  })
+  .then(() => fillForm(null));
+`;
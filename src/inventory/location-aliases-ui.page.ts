@@ -0,0 +1,46 @@
+import { UI_BASE_STYLES } from './ui-styles';
+
+export const LOCATION_ALIASES_UI_HTML = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width,initial-scale=1" />
+  <title>Location Aliases</title>
+  <style>
+${UI_BASE_STYLES}
+    .form-grid { display: grid; grid-template-columns: 220px 1fr; gap: 8px 12px; align-items: center; }
+    .form-grid input, .form-grid select, .row select { padding: 8px; border: 1px solid #dbe3ef; border-radius: 6px; font: inherit; }
+  </style>
+</head>
+<body>
+  <div class="wrap">
+    <nav class="nav"><a href="/inventory/upload-ui">Upload</a><a href="/inventory/history-ui">History</a><a href="/inventory/profiles-ui">Mapping Profiles</a><a href="/inventory/location-aliases-ui">Location Aliases</a><span id="sessionInfo" class="session muted"></span></nav>
+    <div class="card">
+      <h1>Location Aliases</h1>
+      <p class="muted">Map the location codes and names your files use (for example an ERP code like WH-NBO-01) to a Shopify location. Matching ignores case; a Shopify location name always wins over an alias spelled the same.</p>
+      <div class="row" style="margin-bottom: 12px;">
+        <label for="storeSelect">Store</label>
+        <select id="storeSelect"></select>
+      </div>
+      <div id="aliasesWrap" class="muted">Loading aliases...</div>
+    </div>
+
+    <div class="card">
+      <h3 id="formTitle">New alias</h3>
+      <div class="form-grid">
+        <label for="field-alias">Alias (code or name in files)</label><input id="field-alias" />
+        <label for="field-location">Shopify location</label><select id="field-location"></select>
+      </div>
+      <div class="row" style="margin-top: 12px;">
+        <button id="saveBtn">Save</button>
+        <button id="newBtn" class="secondary">New alias</button>
+        <button id="deleteBtn" class="secondary" hidden>Delete</button>
+        <span id="status" class="status muted"></span>
+      </div>
+    </div>
+  </div>
+
+  <script src="/inventory/location-aliases-ui.js"></script>
+</body>
+</html>
+`;
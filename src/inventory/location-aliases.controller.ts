@@ -0,0 +1,44 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { RequireRole } from '../auth/auth.decorators';
+import { ShopifyLocation } from '../services/shopify.service';
+import { LocationAliasDto } from './inventory.dto';
+import { LocationAlias } from './inventory.types';
+import { LocationAliasesService } from './location-aliases.service';
+
+@Controller('inventory/location-aliases')
+export class LocationAliasesController {
+  constructor(private readonly locationAliasesService: LocationAliasesService) {}
+
+  @Get()
+  list(@Query('store') store?: string): Promise<LocationAlias[]> {
+    return this.locationAliasesService.list(store);
+  }
+
+  @Get('locations')
+  listLocations(@Query('store') store?: string): Promise<ShopifyLocation[]> {
+    return this.locationAliasesService.listLocations(store);
+  }
+
+  @Put(':alias')
+  @RequireRole('operator')
+  save(@Param('alias') alias: string, @Body() dto: LocationAliasDto): Promise<LocationAlias> {
+    return this.locationAliasesService.save(alias, dto);
+  }
+
+  @Delete(':alias')
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('alias') alias: string, @Query('store') store?: string): Promise<void> {
+    return this.locationAliasesService.remove(alias, store);
+  }
+}
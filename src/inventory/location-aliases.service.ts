@@ -0,0 +1,134 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { FileStoreService } from '../services/file-store.service';
+import { ShopifyLocation } from '../services/shopify.service';
+import { ShopifyStoresService } from '../services/shopify-stores.service';
+import { computeTitleSimilarity, normalizeTitle } from '../services/title-similarity';
+import { LocationAliasDto } from './inventory.dto';
+import { LocationAlias } from './inventory.types';
+
+const ALIASES_FILE = 'location-aliases.json';
+const MAX_ALIAS_LENGTH = 100;
+// Below this a suggestion would be a guess rather than a likely typo.
+const MINIMUM_SUGGESTION_SCORE = 0.5;
+
+// Managed table of external location codes ("WH-NBO-01") and names mapped to Shopify
+// locations, per store since location IDs differ between shops.
+@Injectable()
+export class LocationAliasesService {
+  constructor(
+    private readonly fileStore: FileStoreService,
+    private readonly shopifyStores: ShopifyStoresService,
+  ) {}
+
+  async list(store?: string): Promise<LocationAlias[]> {
+    const aliases = await this.fileStore.readJson<LocationAlias[]>(ALIASES_FILE, []);
+    const storeName = store ? this.shopifyStores.get(store).storeName : undefined;
+    return aliases.filter((alias) => !storeName || alias.store === storeName);
+  }
+
+  // Shopify locations an alias can point to.
+  listLocations(store?: string): Promise<ShopifyLocation[]> {
+    return this.shopifyStores.get(store).getLocations();
+  }
+
+  // Creates the alias or repoints an existing one.
+  async save(alias: string, dto: LocationAliasDto): Promise<LocationAlias> {
+    const name = alias.trim();
+    if (!name || name.length > MAX_ALIAS_LENGTH) {
+      throw new BadRequestException(`Alias must be 1 to ${MAX_ALIAS_LENGTH} characters`);
+    }
+
+    const shopify = this.shopifyStores.get(dto.store);
+    const location = (await shopify.getLocations()).find(
+      (candidate) => candidate.id === dto.locationId.trim(),
+    );
+    if (!location) {
+      throw new BadRequestException(
+        `Location ${dto.locationId} does not exist in store "${shopify.storeName}"`,
+      );
+    }
+
+    const saved: LocationAlias = {
+      alias: name,
+      store: shopify.storeName,
+      locationId: location.id,
+      locationName: location.name,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.fileStore.updateJson<LocationAlias[]>(ALIASES_FILE, [], (aliases) => [
+      ...aliases.filter((existing) => !this.matches(existing, saved.store, name)),
+      saved,
+    ]);
+
+    return saved;
+  }
+
+  async remove(alias: string, store?: string): Promise<void> {
+    const storeName = this.shopifyStores.get(store).storeName;
+    await this.fileStore.updateJson<LocationAlias[]>(ALIASES_FILE, [], (aliases) => {
+      const remaining = aliases.filter((existing) => !this.matches(existing, storeName, alias));
+      if (remaining.length === aliases.length) {
+        throw new NotFoundException(`Location alias "${alias}" not found in store "${storeName}"`);
+      }
+
+      return remaining;
+    });
+  }
+
+  // Lower-cased alias -> location ID for one store.
+  async getAliasMap(storeName: string): Promise<Map<string, string>> {
+    const aliases = await this.list(storeName);
+    return new Map(aliases.map((alias) => [alias.alias.trim().toLowerCase(), alias.locationId]));
+  }
+
+  private matches(alias: LocationAlias, storeName: string, name: string): boolean {
+    return (
+      alias.store === storeName && alias.alias.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+  }
+}
+
+// The known name (location name or alias, lower-cased as in the location map) closest to an
+// unknown one, for "did you mean" hints. Scores word overlap and edit distance, so both
+// "Nairobi Store" and "Main Warehose" find their location.
+export function closestLocationKey(requested: string, knownKeys: string[]): string | null {
+  const wanted = normalizeTitle(requested);
+  let bestKey: string | null = null;
+  let bestScore = 0;
+
+  for (const key of knownKeys) {
+    const score = Math.max(
+      computeTitleSimilarity(requested, key),
+      editSimilarity(wanted, normalizeTitle(key)),
+    );
+    if (score > bestScore) {
+      bestKey = key;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= MINIMUM_SUGGESTION_SCORE ? bestKey : null;
+}
+
+// 1 for equal strings down to 0, from the Levenshtein distance.
+function editSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (!longest) {
+    return 0;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return 1 - previous[b.length] / longest;
+}
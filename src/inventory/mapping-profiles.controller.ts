@@ -0,0 +1,52 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { RequireRole } from '../auth/auth.decorators';
+import { MappingProfileDto } from './inventory.dto';
+import { MappingProfile } from './inventory.types';
+import { MappingProfilesService } from './mapping-profiles.service';
+
+@Controller('inventory/mapping-profiles')
+export class MappingProfilesController {
+  constructor(private readonly mappingProfilesService: MappingProfilesService) {}
+
+  @Get()
+  list(): Promise<MappingProfile[]> {
+    return this.mappingProfilesService.list();
+  }
+
+  @Get(':name')
+  get(@Param('name') name: string): Promise<MappingProfile> {
+    return this.mappingProfilesService.get(name);
+  }
+
+  @Post()
+  @RequireRole('operator')
+  create(@Body() dto: MappingProfileDto): Promise<MappingProfile> {
+    return this.mappingProfilesService.create(dto);
+  }
+
+  @Put(':name')
+  @RequireRole('operator')
+  update(
+    @Param('name') name: string,
+    @Body() dto: MappingProfileDto,
+  ): Promise<MappingProfile> {
+    return this.mappingProfilesService.update(name, dto);
+  }
+
+  @Delete(':name')
+  @RequireRole('operator')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('name') name: string): Promise<void> {
+    return this.mappingProfilesService.remove(name);
+  }
+}
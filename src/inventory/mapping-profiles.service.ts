@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DEFAULT_COLUMN_MAPPING } from '../services/excel.service';
+import { FileStoreService } from '../services/file-store.service';
+import { ColumnMappingDto, MappingProfileDto } from './inventory.dto';
+import { ColumnMapping, MappingProfile } from './inventory.types';
+
+const PROFILES_FILE = 'mapping-profiles.json';
+
+export const DEFAULT_PROFILE_NAME = 'default';
+
+const DEFAULT_PROFILE: MappingProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  description: 'Built-in header aliases (Shopify inventory template and common ERP exports)',
+  builtIn: true,
+  columns: DEFAULT_COLUMN_MAPPING,
+};
+
+@Injectable()
+export class MappingProfilesService {
+  constructor(private readonly fileStore: FileStoreService) {}
+
+  async list(): Promise<MappingProfile[]> {
+    const custom = await this.readCustomProfiles();
+    return [DEFAULT_PROFILE, ...custom];
+  }
+
+  async get(name: string): Promise<MappingProfile> {
+    const profile = (await this.list()).find(
+      (candidate) => candidate.name.toLowerCase() === name.trim().toLowerCase(),
+    );
+    if (!profile) {
+      throw new NotFoundException(`Mapping profile "${name}" not found`);
+    }
+
+    return profile;
+  }
+
+  async create(dto: MappingProfileDto): Promise<MappingProfile> {
+    const profile = this.toProfile(dto.name, dto);
+    await this.fileStore.updateJson<MappingProfile[]>(PROFILES_FILE, [], (profiles) => {
+      this.assertWritable(profile.name);
+      if (profiles.some((existing) => this.sameName(existing.name, profile.name))) {
+        throw new ConflictException(`Mapping profile "${profile.name}" already exists`);
+      }
+
+      return [...profiles, profile];
+    });
+
+    return profile;
+  }
+
+  async update(name: string, dto: MappingProfileDto): Promise<MappingProfile> {
+    this.assertWritable(name);
+    let updated: MappingProfile | undefined;
+
+    await this.fileStore.updateJson<MappingProfile[]>(PROFILES_FILE, [], (profiles) => {
+      const index = profiles.findIndex((existing) => this.sameName(existing.name, name));
+      if (index < 0) {
+        throw new NotFoundException(`Mapping profile "${name}" not found`);
+      }
+
+      const renamed = dto.name.trim();
+      if (
+        !this.sameName(renamed, name) &&
+        profiles.some((existing) => this.sameName(existing.name, renamed))
+      ) {
+        throw new ConflictException(`Mapping profile "${renamed}" already exists`);
+      }
+
+      this.assertWritable(renamed);
+      updated = this.toProfile(renamed, dto);
+      return profiles.map((existing, i) => (i === index ? updated! : existing));
+    });
+
+    return updated!;
+  }
+
+  async remove(name: string): Promise<void> {
+    this.assertWritable(name);
+    await this.fileStore.updateJson<MappingProfile[]>(PROFILES_FILE, [], (profiles) => {
+      const remaining = profiles.filter((existing) => !this.sameName(existing.name, name));
+      if (remaining.length === profiles.length) {
+        throw new NotFoundException(`Mapping profile "${name}" not found`);
+      }
+
+      return remaining;
+    });
+  }
+
+  private toProfile(name: string, dto: MappingProfileDto): MappingProfile {
+    const columns = this.normalizeColumns(dto.columns);
+    const hasIdentifier = [
+      columns.sku,
+      columns.itemCode,
+      columns.barcode,
+      columns.handle,
+      columns.title,
+    ].some((aliases) => aliases.length > 0);
+    // Movement columns suffice for adjust-mode profiles, state columns for state-only files.
+    const hasQuantity = [
+      columns.closingStock,
+      columns.openingStock,
+      columns.stockMovement,
+      columns.inward,
+      columns.outward,
+      columns.onHand ?? [],
+      columns.damaged ?? [],
+      columns.qualityControl ?? [],
+      columns.safetyStock ?? [],
+      columns.reserved ?? [],
+    ].some((aliases) => aliases.length > 0);
+
+    if (!hasIdentifier) {
+      throw new BadRequestException(
+        'Profile must map at least one identifier column (SKU, item code, barcode, handle, or title)',
+      );
+    }
+
+    if (!hasQuantity) {
+      throw new BadRequestException(
+        'Profile must map a closing stock, opening stock, movement or quantity state column',
+      );
+    }
+
+    return {
+      name: name.trim(),
+      description: dto.description?.trim() ?? '',
+      builtIn: false,
+      columns,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  private normalizeColumns(dto: ColumnMappingDto): ColumnMapping {
+    const clean = (aliases?: string[]): string[] => [
+      ...new Set((aliases ?? []).map((alias) => alias.trim()).filter((alias) => alias !== '')),
+    ];
+
+    return {
+      sku: clean(dto.sku),
+      itemCode: clean(dto.itemCode),
+      handle: clean(dto.handle),
+      title: clean(dto.title),
+      barcode: clean(dto.barcode),
+      optionValues: clean(dto.optionValues),
+      location: clean(dto.location),
+      bin: clean(dto.bin),
+      closingStock: clean(dto.closingStock),
+      openingStock: clean(dto.openingStock),
+      stockMovement: clean(dto.stockMovement),
+      inward: clean(dto.inward),
+      outward: clean(dto.outward),
+      onHand: clean(dto.onHand),
+      damaged: clean(dto.damaged),
+      qualityControl: clean(dto.qualityControl),
+      safetyStock: clean(dto.safetyStock),
+      reserved: clean(dto.reserved),
+      adjustReason: clean(dto.adjustReason),
+    };
+  }
+
+  private assertWritable(name: string): void {
+    if (this.sameName(name, DEFAULT_PROFILE_NAME)) {
+      throw new BadRequestException('The default mapping profile is built in and cannot be changed');
+    }
+  }
+
+  private sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+
+  private async readCustomProfiles(): Promise<MappingProfile[]> {
+    return this.fileStore.readJson<MappingProfile[]>(PROFILES_FILE, []);
+  }
+}
@@ -0,0 +1,145 @@
+import { UI_SESSION_JS } from './ui-session.client';
+import { UI_TABLES_JS } from './ui-tables.client';
+
+export const PROFILES_UI_CLIENT_JS = `${UI_TABLES_JS}${UI_SESSION_JS}
+const profilesWrap = document.getElementById('profilesWrap');
+const profileForm = document.getElementById('profileForm');
+const formTitle = document.getElementById('formTitle');
+const nameInput = document.getElementById('field-name');
+const descriptionInput = document.getElementById('field-description');
+const saveBtn = document.getElementById('saveBtn');
+const newBtn = document.getElementById('newBtn');
+const deleteBtn = document.getElementById('deleteBtn');
+const statusEl = document.getElementById('status');
+
+const columnFields = [
+  ['sku', 'SKU'],
+  ['itemCode', 'Item code (matched as SKU)'],
+  ['barcode', 'Barcode'],
+  ['handle', 'Product handle'],
+  ['title', 'Title / item name'],
+  ['optionValues', 'Option values'],
+  ['location', 'Location'],
+  ['bin', 'Bin'],
+  ['closingStock', 'Closing stock (absolute)'],
+  ['openingStock', 'Opening stock'],
+  ['stockMovement', 'Stock movement'],
+  ['inward', 'Inward / received'],
+  ['outward', 'Outward / sold'],
+  ['onHand', 'On hand (sets on_hand)'],
+  ['damaged', 'Damaged'],
+  ['qualityControl', 'Quality control'],
+  ['safetyStock', 'Safety stock'],
+  ['reserved', 'Reserved'],
+  ['adjustReason', 'Adjustment reason (adjust mode)'],
+];
+
+columnFields.forEach(([key, label]) => {
+  const labelEl = document.createElement('label');
+  labelEl.htmlFor = 'col-' + key;
+  labelEl.textContent = label;
+  const input = document.createElement('input');
+  input.id = 'col-' + key;
+  profileForm.append(labelEl, input);
+});
+
+let profiles = [];
+let editing = null;
+
+const setStatus = (text, cls) => {
+  statusEl.textContent = text;
+  statusEl.className = 'status ' + (cls || 'muted');
+};
+
+const fillForm = (profile, asNew) => {
+  editing = asNew ? null : profile.name;
+  formTitle.textContent = asNew ? 'New profile' : 'Edit profile "' + profile.name + '"';
+  nameInput.value = asNew ? '' : profile.name;
+  descriptionInput.value = asNew ? '' : profile.description || '';
+  columnFields.forEach(([key]) => {
+    document.getElementById('col-' + key).value = (profile.columns[key] || []).join(', ');
+  });
+  deleteBtn.hidden = asNew;
+  setStatus('');
+};
+
+const profilesTableHtml = (rows) => {
+  const body = rows.map((p) => '<tr class="clickable" data-name="' + esc(p.name) + '">' +
+    '<td>' + esc(p.name) + '</td>' +
+    '<td>' + esc(p.description) + '</td>' +
+    '<td>' + esc(p.builtIn ? 'built-in (read-only)' : 'custom') + '</td>' +
+    '<td>' + esc(p.updatedAt ? new Date(p.updatedAt).toLocaleString() : '') + '</td>' +
+  '</tr>').join('');
+  return '<table><thead><tr><th>Name</th><th>Description</th><th>Type</th><th>Updated</th></tr></thead><tbody>' + body + '</tbody></table>';
+};
+
+const loadProfiles = async () => {
+  const res = await fetch('/inventory/mapping-profiles');
+  profiles = await res.json().catch(() => []);
+  if (!res.ok) {
+    profilesWrap.textContent = profiles.message || 'Could not load profiles.';
+    return;
+  }
+
+  profilesWrap.innerHTML = profilesTableHtml(profiles);
+};
+
+profilesWrap.addEventListener('click', (event) => {
+  const row = event.target.closest('tr[data-name]');
+  const profile = row && profiles.find((p) => p.name === row.dataset.name);
+  if (!profile) return;
+  // Built-in profiles cannot be edited; start a copy instead.
+  fillForm(profile, profile.builtIn);
+});
+
+newBtn.addEventListener('click', () => {
+  const base = profiles.find((p) => p.builtIn);
+  if (base) fillForm(base, true);
+});
+
+saveBtn.addEventListener('click', async () => {
+  const columns = {};
+  columnFields.forEach(([key]) => {
+    columns[key] = document.getElementById('col-' + key).value
+      .split(',')
+      .map((value) => value.trim())
+      .filter((value) => value !== '');
+  });
+
+  const body = { name: nameInput.value.trim(), description: descriptionInput.value.trim(), columns };
+  const url = editing
+    ? '/inventory/mapping-profiles/' + encodeURIComponent(editing)
+    : '/inventory/mapping-profiles';
+  const res = await fetch(url, {
+    method: editing ? 'PUT' : 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+
+  if (!res.ok) {
+    setStatus([].concat(data.message || 'Save failed.').join('; '), 'err');
+    return;
+  }
+
+  await loadProfiles();
+  fillForm(data, false);
+  setStatus('Saved.', 'ok');
+});
+
+deleteBtn.addEventListener('click', async () => {
+  if (!editing || !confirm('Delete profile "' + editing + '"?')) return;
+  const res = await fetch('/inventory/mapping-profiles/' + encodeURIComponent(editing), { method: 'DELETE' });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    setStatus(data.message || 'Delete failed.', 'err');
+    return;
+  }
+
+  await loadProfiles();
+  newBtn.click();
+  setStatus('Deleted.', 'ok');
+});
+
+loadProfiles().then(() => newBtn.click());
+`;
@@ -0,0 +1,42 @@
+import { UI_BASE_STYLES } from './ui-styles';
+
+export const PROFILES_UI_HTML = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width,initial-scale=1" />
+  <title>Column Mapping Profiles</title>
+  <style>
+${UI_BASE_STYLES}
+    .form-grid { display: grid; grid-template-columns: 220px 1fr; gap: 8px 12px; align-items: center; }
+    .form-grid input { padding: 8px; border: 1px solid #dbe3ef; border-radius: 6px; font: inherit; }
+  </style>
+</head>
+<body>
+  <div class="wrap">
+    <nav class="nav"><a href="/inventory/upload-ui">Upload</a><a href="/inventory/history-ui">History</a><a href="/inventory/profiles-ui">Mapping Profiles</a><a href="/inventory/location-aliases-ui">Location Aliases</a><span id="sessionInfo" class="session muted"></span></nav>
+    <div class="card">
+      <h1>Column Mapping Profiles</h1>
+      <p class="muted">A profile tells the importer which spreadsheet headers feed each field. Header matching ignores case. List several headers per field, separated by commas; the first one present in the file wins.</p>
+      <div id="profilesWrap" class="muted">Loading profiles...</div>
+    </div>
+
+    <div class="card">
+      <h3 id="formTitle">New profile</h3>
+      <div class="form-grid" id="profileForm">
+        <label for="field-name">Name</label><input id="field-name" />
+        <label for="field-description">Description</label><input id="field-description" />
+      </div>
+      <div class="row" style="margin-top: 12px;">
+        <button id="saveBtn">Save</button>
+        <button id="newBtn" class="secondary">New from default</button>
+        <button id="deleteBtn" class="secondary" hidden>Delete</button>
+        <span id="status" class="status muted"></span>
+      </div>
+    </div>
+  </div>
+
+  <script src="/inventory/profiles-ui.js"></script>
+</body>
+</html>
+`;
@@ -0,0 +1,37 @@
+// Signed-in user for the upload, history, profile and location alias page scripts; expects
+// #sessionInfo in the nav.
+export const UI_SESSION_JS = `const sessionInfo = document.getElementById('sessionInfo');
+const roleRank = { viewer: 0, operator: 1, approver: 2 };
+
+const toLogin = () => {
+  location.href = '/auth/login-ui?next=' + encodeURIComponent(location.pathname + location.search);
+};
+
+// Any API call rejected for a missing or expired session goes back to the sign-in page.
+const baseFetch = window.fetch.bind(window);
+window.fetch = async (...args) => {
+  const res = await baseFetch(...args);
+  if (res.status === 401) toLogin();
+  return res;
+};
+
+// Resolves to { enabled, user }; with authentication off every action is allowed.
+const session = fetch('/auth/me')
+  .then((res) => res.json())
+  .catch(() => ({ enabled: false, user: null }))
+  .then((status) => {
+    if (status.enabled && !status.user) toLogin();
+    if (status.user) {
+      sessionInfo.innerHTML = esc(status.user.name) + ' (' + esc(status.user.role) + ') <a href="#" id="logoutLink">Sign out</a>';
+      document.getElementById('logoutLink').addEventListener('click', async (event) => {
+        event.preventDefault();
+        await fetch('/auth/logout', { method: 'POST' });
+        toLogin();
+      });
+    }
+    return status;
+  });
+
+const hasRole = (status, role) => !status.enabled ||
+  Boolean(status.user && roleRank[status.user.role] >= roleRank[role]);
+`;
@@ -0,0 +1,36 @@
+// Shared by the upload, history, profiles, location aliases and sign-in pages.
+export const UI_BASE_STYLES = `
+:root { font-family: "Segoe UI", Tahoma, sans-serif; color-scheme: light; }
+body { margin: 0; background: #f6f8fb; color: #1f2937; }
+.wrap { max-width: 1080px; margin: 32px auto; padding: 0 16px; }
+.card { background: #fff; border: 1px solid #dbe3ef; border-radius: 12px; padding: 16px; margin-bottom: 16px; }
+h1 { margin: 0 0 12px; font-size: 24px; }
+.row { display: flex; gap: 10px; align-items: center; flex-wrap: wrap; }
+button { background: #1165d8; color: #fff; border: 0; border-radius: 8px; padding: 10px 14px; cursor: pointer; }
+button.secondary { background: #fff; color: #1165d8; border: 1px solid #1165d8; }
+button[disabled] { opacity: .5; cursor: not-allowed; }
+.muted { color: #5f6f82; font-size: 14px; }
+.status { font-weight: 600; }
+.ok { color: #0f766e; }
+.err { color: #b91c1c; }
+.grid { display: grid; grid-template-columns: repeat(4, minmax(0, 1fr)); gap: 12px; }
+.pill { border-radius: 10px; padding: 10px 12px; border: 1px solid #dbe3ef; }
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th, td { text-align: left; border-bottom: 1px solid #e9eef6; padding: 8px 6px; }
+th { background: #f7f9fc; }
+a { color: #1165d8; }
+.nav { display: flex; gap: 16px; margin-bottom: 12px; font-size: 14px; }
+.nav .session { margin-left: auto; }
+tr.clickable { cursor: pointer; }
+tr.clickable:hover td { background: #f0f5ff; }
+progress { width: 100%; height: 14px; margin-top: 12px; }
+.sandbox-banner { background: #b45309; color: #fff; text-align: center; font-weight: 700; letter-spacing: .08em; padding: 8px 16px; }
+@media (max-width: 840px) { .grid { grid-template-columns: 1fr; } }
+`;
+
+// Every page carries the banner in sandbox mode, so practice is never mistaken for the live shop.
+export function withSandboxBanner(html: string, sandbox: boolean): string {
+  const banner =
+    '<div class="sandbox-banner">SANDBOX: changes go to a practice store, not to Shopify</div>';
+  return sandbox ? html.replace('<body>', `<body>\n  ${banner}`) : html;
+}
@@ -0,0 +1,72 @@
+// Table renderers shared by the upload and history page scripts.
+export const UI_TABLES_JS = `const esc = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const rowRef = (r) => (r.sheetName ? r.sheetName + '!' : '') + (r.rowNumber ?? '');
+
+const stateName = (r) => r.quantityName || 'available';
+
+// Published quantity, plus the file's own value when an allocation rule changed it.
+const publishedQty = (value, r) => esc(value) + (r.allocationRule
+  ? ' <span class="muted">(file ' + esc(r.fileQuantity) + ', rule ' + esc(r.allocationRule) + ')</span>'
+  : '');
+
+// Spreadsheet downloads for a finished job; the failed-rows file can be fixed and re-uploaded.
+const downloadsHtml = (jobId, failedCount) => {
+  const base = '/inventory/jobs/' + encodeURIComponent(jobId);
+  const links = ['Report: <a href="' + base + '/report?format=xlsx">XLSX</a> <a href="' + base + '/report?format=csv">CSV</a>'];
+  if (failedCount > 0) {
+    links.push('Failed rows (' + failedCount + '): <a href="' + base + '/failed-rows?format=xlsx">XLSX</a> <a href="' + base + '/failed-rows?format=csv">CSV</a>');
+  }
+  return links.join(' | ');
+};
+
+const tableHtml = (rows) => {
+  if (!rows || rows.length === 0) return '<span class="muted">None</span>';
+  const body = rows.map((r) => '<tr>' +
+    '<td>' + esc(rowRef(r)) + '</td>' +
+    '<td>' + esc(r.itemName) + '</td>' +
+    '<td>' + esc(r.sku) + '</td>' +
+    '<td>' + esc(r.locationName) + '</td>' +
+    '<td>' + esc(stateName(r)) + '</td>' +
+    '<td>' + publishedQty(r.quantity, r) + '</td>' +
+    '<td>' + esc(r.reason) + '</td>' +
+  '</tr>').join('');
+  return '<table><thead><tr><th>Row</th><th>Item Name</th><th>SKU</th><th>Location</th><th>State</th><th>Qty</th><th>Reason</th></tr></thead><tbody>' + body + '</tbody></table>';
+};
+
+const conflictTableHtml = (rows) => {
+  if (!rows || rows.length === 0) return '<span class="muted">None</span>';
+  const body = rows.map((r) => '<tr>' +
+    '<td>' + esc(rowRef(r)) + '</td>' +
+    '<td>' + esc(r.itemName) + '</td>' +
+    '<td>' + esc(r.sku) + '</td>' +
+    '<td>' + esc(r.locationName) + '</td>' +
+    '<td>' + esc(stateName(r)) + '</td>' +
+    '<td>' + esc(r.expectedQuantity ?? 'none') + '</td>' +
+    '<td>' + esc(r.liveQuantity === undefined ? 'unknown' : r.liveQuantity ?? 'none') + '</td>' +
+    '<td>' + esc(r.quantity) + '</td>' +
+    '<td>' + esc(r.reason) + '</td>' +
+  '</tr>').join('');
+  return '<table><thead><tr><th>Row</th><th>Item Name</th><th>SKU</th><th>Location</th><th>State</th><th>Expected</th><th>Live</th><th>Target</th><th>Reason</th></tr></thead><tbody>' + body + '</tbody></table>';
+};
+
+const planTableHtml = (rows) => {
+  if (!rows || rows.length === 0) return '<span class="muted">None</span>';
+  const body = rows.map((r) => '<tr>' +
+    '<td>' + esc(rowRef(r)) + '</td>' +
+    '<td>' + esc(r.itemName) + '</td>' +
+    '<td>' + esc(r.sku) + '</td>' +
+    '<td>' + esc(r.inventoryItemId) + '</td>' +
+    '<td>' + esc(r.locationName) + '</td>' +
+    '<td>' + esc(stateName(r)) + '</td>' +
+    '<td>' + esc(r.currentQuantity ?? 'none') + '</td>' +
+    '<td>' + publishedQty(r.targetQuantity, r) + '</td>' +
+    '<td>' + esc(r.delta > 0 ? '+' + r.delta : r.delta) + '</td>' +
+  '</tr>').join('');
+  return '<table><thead><tr><th>Row</th><th>Item Name</th><th>SKU</th><th>Inventory Item</th><th>Location</th><th>State</th><th>Current</th><th>Target</th><th>Delta</th></tr></thead><tbody>' + body + '</tbody></table>';
+};
+`;
@@ -1,27 +1,208 @@
-export const UPLOAD_UI_CLIENT_JS = `const fileInput = document.getElementById('fileInput');
+import { UI_SESSION_JS } from './ui-session.client';
+import { UI_TABLES_JS } from './ui-tables.client';
+
+export const UPLOAD_UI_CLIENT_JS = `${UI_TABLES_JS}${UI_SESSION_JS}
+const fileInput = document.getElementById('fileInput');
 const uploadBtn = document.getElementById('uploadBtn');
+const previewBtn = document.getElementById('previewBtn');
+const profileSelect = document.getElementById('profileSelect');
+const sheetInput = document.getElementById('sheetInput');
+const allSheetsInput = document.getElementById('allSheetsInput');
+const snapshotInput = document.getElementById('snapshotInput');
+const safeWriteSelect = document.getElementById('safeWriteSelect');
+const modeSelect = document.getElementById('modeSelect');
+const reasonLabel = document.getElementById('reasonLabel');
+const reasonSelect = document.getElementById('reasonSelect');
+const storeChoices = document.getElementById('storeChoices');
+const storeTabs = document.getElementById('storeTabs');
 const statusEl = document.getElementById('status');
+const progressBar = document.getElementById('progressBar');
+const progressText = document.getElementById('progressText');
+const countPlanned = document.getElementById('countPlanned');
 const countUpdated = document.getElementById('countUpdated');
 const countFailed = document.getElementById('countFailed');
 const countSkipped = document.getElementById('countSkipped');
+const countConflict = document.getElementById('countConflict');
+const plannedWrap = document.getElementById('plannedWrap');
 const updatedWrap = document.getElementById('updatedWrap');
 const failedWrap = document.getElementById('failedWrap');
 const skippedWrap = document.getElementById('skippedWrap');
+const conflictWrap = document.getElementById('conflictWrap');
+const downloads = document.getElementById('downloads');
+
+const phaseLabels = {
+  queued: 'Queued',
+  parsing: 'Parsing file',
+  loading_catalog: 'Loading catalog snapshot',
+  resolving_variants: 'Resolving variants',
+  planning: 'Building plan',
+  writing: 'Writing to Shopify',
+  done: 'Done',
+};
+
+const emptyState = () => ({ planned: [], updated: [], failed: [], skipped: [], conflict: [] });
+
+// One entry per target store; the tables show the selected one.
+let jobs = [];
+let current = null;
+let dryRunView = false;
+let state = emptyState();
+let renderScheduled = false;
+
+const renderTabs = () => {
+  storeTabs.hidden = jobs.length < 2;
+  storeTabs.innerHTML = jobs.map((job, index) => '<button data-index="' + index + '"' +
+    (job === current ? '' : ' class="secondary"') + '>' +
+    esc(job.store) + ' (' + esc(job.status) + ')</button>').join('');
+};
+
+const render = () => {
+  renderScheduled = false;
+  state = current ? current.state : emptyState();
+  renderTabs();
+  countPlanned.textContent = String(state.planned.length);
+  countUpdated.textContent = String(state.updated.length);
+  countFailed.textContent = String(state.failed.length);
+  countSkipped.textContent = String(state.skipped.length);
+  countConflict.textContent = String(state.conflict.length);
+  // Real uploads only have planned rows when refused over the change limit.
+  plannedWrap.innerHTML = dryRunView || state.planned.length
+    ? planTableHtml(state.planned)
+    : '<span class="muted">Not a preview run.</span>';
+  updatedWrap.innerHTML = tableHtml(state.updated);
+  failedWrap.innerHTML = tableHtml(state.failed);
+  skippedWrap.innerHTML = tableHtml(state.skipped);
+  conflictWrap.innerHTML = conflictTableHtml(state.conflict);
+  const finished = current && current.status === 'completed';
+  downloads.hidden = !finished;
+  downloads.innerHTML = finished ? downloadsHtml(current.jobId, state.failed.length + state.conflict.length) : '';
+};
+
+// Rows can stream in quickly; batch DOM updates to one per frame.
+const scheduleRender = () => {
+  if (renderScheduled) return;
+  renderScheduled = true;
+  requestAnimationFrame(render);
+};
+
+const showProgress = (job) => setProgress(job.phase, job.processed, job.total);
+
+const trackProgress = (job, phase, processed, total) => {
+  job.phase = phase;
+  job.processed = processed;
+  job.total = total;
+  if (job === current) showProgress(job);
+};
+
+const setProgress = (phase, processed, total) => {
+  const label = phaseLabels[phase] || phase;
+  if (total > 0) {
+    progressBar.max = total;
+    progressBar.value = processed;
+    progressText.textContent = label + ': ' + processed + '/' + total;
+  } else {
+    progressBar.removeAttribute('value');
+    progressText.textContent = label;
+  }
+};
 
-const tableHtml = (rows) => {
-  if (!rows || rows.length === 0) return '<span class="muted">None</span>';
-  const body = rows.map((r) => '<tr>' +
-    '<td>' + (r.rowNumber ?? '') + '</td>' +
-    '<td>' + (r.itemName ?? '') + '</td>' +
-    '<td>' + (r.sku ?? '') + '</td>' +
-    '<td>' + (r.locationName ?? '') + '</td>' +
-    '<td>' + (r.quantity ?? '') + '</td>' +
-    '<td>' + (r.reason ?? '') + '</td>' +
-  '</tr>').join('');
-  return '<table><thead><tr><th>Row</th><th>Item Name</th><th>SKU</th><th>Location</th><th>Qty</th><th>Reason</th></tr></thead><tbody>' + body + '</tbody></table>';
+const setBusy = (busy) => {
+  uploadBtn.disabled = busy;
+  previewBtn.disabled = busy;
 };
 
-uploadBtn.addEventListener('click', async () => {
+const finishJob = async (job) => {
+  const res = await fetch('/inventory/jobs/' + encodeURIComponent(job.jobId));
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    job.status = 'failed';
+    job.error = data.message || 'Could not load job result.';
+    return;
+  }
+
+  const summary = data.summary || {};
+  job.state = {
+    planned: Array.isArray(summary.planned) ? summary.planned : [],
+    updated: Array.isArray(summary.updated) ? summary.updated : [],
+    failed: Array.isArray(summary.failed) ? summary.failed : [],
+    skipped: Array.isArray(summary.skipped) ? summary.skipped : [],
+    conflict: Array.isArray(summary.conflict) ? summary.conflict : [],
+  };
+  job.status = data.status;
+  job.error = data.error;
+  if (job.status !== 'failed') trackProgress(job, 'done', 1, 1);
+  scheduleRender();
+};
+
+const followJob = (job) => new Promise((resolve) => {
+  const source = new EventSource('/inventory/jobs/' + encodeURIComponent(job.jobId) + '/events');
+  let finished = false;
+
+  const done = () => {
+    if (finished) return;
+    finished = true;
+    source.close();
+    finishJob(job).finally(resolve);
+  };
+
+  source.onmessage = (message) => {
+    const event = JSON.parse(message.data);
+    if (event.type === 'phase') {
+      trackProgress(job, event.phase, 0, 0);
+    } else if (event.type === 'progress') {
+      trackProgress(job, event.phase, event.processed, event.total);
+    } else if (event.type === 'row') {
+      job.state[event.bucket].push(event.row);
+      scheduleRender();
+    } else if (event.type === 'planned') {
+      job.state.planned.push(event.row);
+      scheduleRender();
+    } else if (event.type === 'status') {
+      job.status = event.status;
+      scheduleRender();
+      if (event.status === 'completed' || event.status === 'failed') done();
+    }
+  };
+
+  // The server closes the stream when the job ends; fall back to polling the final state.
+  source.onerror = done;
+});
+
+const describeJob = (job) => job.store + ': ' + (job.status === 'failed'
+  ? 'failed (' + (job.error || 'unknown error') + ')'
+  : (dryRunView ? job.state.planned.length + ' planned, ' : job.state.updated.length + ' updated, ') +
+    job.state.failed.length + ' failed, ' + job.state.skipped.length + ' skipped' +
+    (job.state.conflict.length ? ', ' + job.state.conflict.length + ' conflicts' : ''));
+
+const reportResult = () => {
+  render();
+  const anyFailed = jobs.some((job) => job.status === 'failed');
+  const anyFailedRows = jobs.some((job) => job.state.failed.length > 0 || job.state.conflict.length > 0);
+
+  if (jobs.length === 1) {
+    const job = jobs[0];
+    if (job.status === 'failed') {
+      statusEl.textContent = 'Job failed: ' + (job.error || 'unknown error');
+      statusEl.className = 'status err';
+      return;
+    }
+
+    setProgress('done', 1, 1);
+    statusEl.textContent = dryRunView
+      ? 'Preview ready. Nothing was written to Shopify.'
+      : 'Completed. Check updated/failed/skipped/conflict sections.';
+    statusEl.className = anyFailedRows ? 'status err' : 'status ok';
+    return;
+  }
+
+  statusEl.textContent = jobs.map(describeJob).join(' | ');
+  statusEl.className = anyFailed || anyFailedRows ? 'status err' : 'status ok';
+};
+
+const selectedStores = () => Array.from(storeChoices.querySelectorAll('input:checked'))
+  .map((input) => input.value);
+
+const runUpload = async (dryRun) => {
   const file = fileInput.files && fileInput.files[0];
   if (!file) {
     statusEl.textContent = 'Please choose a file first.';
@@ -31,9 +212,30 @@ uploadBtn.addEventListener('click', async () => {
 
   const formData = new FormData();
   formData.append('file', file);
+  formData.append('dryRun', dryRun ? 'true' : 'false');
+  formData.append('profile', profileSelect.value);
+  formData.append('sheetMode', allSheetsInput.checked ? 'all' : 'single');
+  if (!allSheetsInput.checked && sheetInput.value.trim()) {
+    formData.append('sheet', sheetInput.value.trim());
+  }
+  formData.append('useCatalogSnapshot', snapshotInput.checked ? 'true' : 'false');
+  formData.append('mode', modeSelect.value);
+  if (modeSelect.value === 'adjust') formData.append('reason', reasonSelect.value);
+  if (safeWriteSelect.value === 'off') {
+    formData.append('safeWrite', 'false');
+  } else if (safeWriteSelect.value) {
+    formData.append('safeWrite', 'true');
+    formData.append('onConflict', safeWriteSelect.value);
+  }
+  selectedStores().forEach((store) => formData.append('store', store));
 
-  uploadBtn.disabled = true;
-  statusEl.textContent = 'Uploading and processing...';
+  setBusy(true);
+  jobs = [];
+  current = null;
+  dryRunView = dryRun;
+  render();
+  setProgress('queued', 0, 0);
+  statusEl.textContent = dryRun ? 'Building preview...' : 'Uploading and processing...';
   statusEl.className = 'status muted';
 
   try {
@@ -47,24 +249,73 @@ uploadBtn.addEventListener('click', async () => {
       return;
     }
 
-    const updated = Array.isArray(data.updated) ? data.updated : [];
-    const failed = Array.isArray(data.failed) ? data.failed : [];
-    const skipped = Array.isArray(data.skipped) ? data.skipped : [];
-
-    countUpdated.textContent = String(updated.length);
-    countFailed.textContent = String(failed.length);
-    countSkipped.textContent = String(skipped.length);
-    updatedWrap.innerHTML = tableHtml(updated);
-    failedWrap.innerHTML = tableHtml(failed);
-    skippedWrap.innerHTML = tableHtml(skipped);
-
-    statusEl.textContent = 'Completed. Check updated/failed/skipped sections.';
-    statusEl.className = failed.length > 0 ? 'status err' : 'status ok';
+    jobs = (data.jobs || [{ jobId: data.jobId, status: data.status, store: data.store }])
+      .map((job) => ({ ...job, state: emptyState(), phase: 'queued', processed: 0, total: 0 }));
+    current = jobs[0];
+    render();
+    statusEl.textContent = jobs.length === 1
+      ? 'Job ' + jobs[0].jobId + ' started.'
+      : jobs.length + ' jobs started, one per store.';
+    await Promise.all(jobs.map(followJob));
+    reportResult();
   } catch (error) {
     statusEl.textContent = 'Network/server error during upload.';
     statusEl.className = 'status err';
   } finally {
-    uploadBtn.disabled = false;
+    setBusy(false);
+  }
+};
+
+const loadProfiles = async () => {
+  try {
+    const res = await fetch('/inventory/mapping-profiles');
+    const profiles = await res.json();
+    if (!res.ok || !Array.isArray(profiles)) return;
+    profileSelect.innerHTML = profiles
+      .map((p) => '<option value="' + esc(p.name) + '">' + esc(p.name) + '</option>')
+      .join('');
+  } catch (error) {
+    // Keep the built-in default option.
+  }
+};
+
+const loadStores = async () => {
+  try {
+    const res = await fetch('/inventory/stores');
+    const stores = await res.json();
+    if (!res.ok || !Array.isArray(stores)) return;
+    storeChoices.innerHTML = 'Stores ' + stores.map((s) => '<label><input type="checkbox" value="' +
+      esc(s.name) + '"' + (s.isDefault ? ' checked' : '') + ' /> ' + esc(s.name) + '</label>').join(' ');
+  } catch (error) {
+    // Without a list the server uses the default store.
   }
+};
+
+loadProfiles();
+loadStores();
+session.then((status) => {
+  if (hasRole(status, 'operator')) return;
+  uploadBtn.disabled = true;
+  previewBtn.disabled = true;
+  statusEl.textContent = 'Your role can view history and exports but not upload.';
+});
+
+storeTabs.addEventListener('click', (event) => {
+  const button = event.target.closest('button');
+  if (!button) return;
+  current = jobs[Number(button.dataset.index)];
+  showProgress(current);
+  render();
+});
+
+allSheetsInput.addEventListener('change', () => {
+  sheetInput.disabled = allSheetsInput.checked;
+});
+
+modeSelect.addEventListener('change', () => {
+  reasonLabel.hidden = modeSelect.value !== 'adjust';
 });
+
+uploadBtn.addEventListener('click', () => runUpload(false));
+previewBtn.addEventListener('click', () => runUpload(true));
 `;
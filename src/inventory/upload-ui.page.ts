@@ -1,3 +1,5 @@
+import { UI_BASE_STYLES } from './ui-styles';
+
 export const UPLOAD_UI_HTML = `<!doctype html>
 <html lang="en">
 <head>
@@ -5,44 +7,51 @@ export const UPLOAD_UI_HTML = `<!doctype html>
   <meta name="viewport" content="width=device-width,initial-scale=1" />
   <title>Inventory Upload</title>
   <style>
-    :root { font-family: "Segoe UI", Tahoma, sans-serif; color-scheme: light; }
-    body { margin: 0; background: #f6f8fb; color: #1f2937; }
-    .wrap { max-width: 1080px; margin: 32px auto; padding: 0 16px; }
-    .card { background: #fff; border: 1px solid #dbe3ef; border-radius: 12px; padding: 16px; margin-bottom: 16px; }
-    h1 { margin: 0 0 12px; font-size: 24px; }
-    .row { display: flex; gap: 10px; align-items: center; flex-wrap: wrap; }
-    button { background: #1165d8; color: #fff; border: 0; border-radius: 8px; padding: 10px 14px; cursor: pointer; }
-    button[disabled] { opacity: .5; cursor: not-allowed; }
-    .muted { color: #5f6f82; font-size: 14px; }
-    .status { font-weight: 600; }
-    .ok { color: #0f766e; }
-    .err { color: #b91c1c; }
-    .grid { display: grid; grid-template-columns: repeat(3, minmax(0, 1fr)); gap: 12px; }
-    .pill { border-radius: 10px; padding: 10px 12px; border: 1px solid #dbe3ef; }
-    table { width: 100%; border-collapse: collapse; font-size: 14px; }
-    th, td { text-align: left; border-bottom: 1px solid #e9eef6; padding: 8px 6px; }
-    th { background: #f7f9fc; }
-    @media (max-width: 840px) { .grid { grid-template-columns: 1fr; } }
+${UI_BASE_STYLES}
   </style>
 </head>
 <body>
   <div class="wrap">
+    <nav class="nav"><a href="/inventory/upload-ui">Upload</a><a href="/inventory/history-ui">History</a><a href="/inventory/profiles-ui">Mapping Profiles</a><a href="/inventory/location-aliases-ui">Location Aliases</a><span id="sessionInfo" class="session muted"></span></nav>
     <div class="card">
       <h1>Shopify Inventory Upload</h1>
       <div class="row">
         <input id="fileInput" type="file" accept=".csv,.xlsx,.xls" />
+        <label class="muted">Profile <select id="profileSelect"><option value="default">default</option></select></label>
+        <label class="muted">Sheet <input id="sheetInput" size="10" placeholder="first" /></label>
+        <label class="muted"><input id="allSheetsInput" type="checkbox" /> All sheets (sheet name = location)</label>
+        <label class="muted"><input id="snapshotInput" type="checkbox" /> Use catalog snapshot</label>
+        <label class="muted">Mode <select id="modeSelect"><option value="set">set quantity</option><option value="adjust">adjust by movement</option></select></label>
+        <label id="reasonLabel" class="muted" hidden>Reason <select id="reasonSelect"><option value="correction">correction</option><option value="cycle_count_available">cycle_count_available</option><option value="damaged">damaged</option><option value="movement_received">movement_received</option><option value="other">other</option><option value="promotion">promotion</option><option value="quality_control">quality_control</option><option value="received">received</option><option value="restock">restock</option><option value="safety_stock">safety_stock</option><option value="shrinkage">shrinkage</option></select></label>
+        <label class="muted">Safe write <select id="safeWriteSelect"><option value="">server default</option><option value="off">off</option><option value="review">on, review conflicts</option><option value="retry">on, retry conflicts</option></select></label>
+        <span id="storeChoices" class="muted"></span>
+        <button id="previewBtn" class="secondary">Preview</button>
         <button id="uploadBtn">Upload</button>
         <span id="status" class="status muted">Select a file to begin</span>
       </div>
+      <progress id="progressBar" max="100" value="0"></progress>
+      <div id="progressText" class="muted">Idle</div>
+      <p class="muted">Preview shows what an upload would change without writing to Shopify.</p>
       <p class="muted">Reference template: Shopify Inventory CSV (Handle, SKU, Location, On hand (new)). Required: quantity plus one identifier (SKU, Variant Barcode, Handle, or Title). Location is optional and resolved from Shopify when omitted.</p>
+      <p class="muted">Start from current stock: <a href="/inventory/export">download XLSX</a> or <a href="/inventory/export?format=csv">CSV</a> of every tracked variant per location, fill in the Quantity column and upload it here.</p>
+      <p class="muted">Adjust mode applies Stock Movement (or Inward/Out Qty) as a relative change instead of setting an absolute quantity, for goods-received and returns files. A Reason column overrides the reason per row.</p>
     </div>
 
     <div class="card">
+      <div id="storeTabs" class="row" hidden></div>
       <div class="grid">
+        <div class="pill">Planned: <strong id="countPlanned">0</strong></div>
         <div class="pill">Updated: <strong id="countUpdated">0</strong></div>
         <div class="pill">Failed: <strong id="countFailed">0</strong></div>
         <div class="pill">Skipped: <strong id="countSkipped">0</strong></div>
+        <div class="pill">Conflicts: <strong id="countConflict">0</strong></div>
       </div>
+      <div id="downloads" class="muted" hidden></div>
+    </div>
+
+    <div class="card">
+      <h3>Planned Changes (Preview)</h3>
+      <div id="plannedWrap" class="muted">Run a preview to see planned changes.</div>
     </div>
 
     <div class="card">
@@ -59,6 +68,12 @@ export const UPLOAD_UI_HTML = `<!doctype html>
       <h3>Skipped Rows</h3>
       <div id="skippedWrap" class="muted">No skipped rows yet.</div>
     </div>
+
+    <div class="card">
+      <h3>Conflicts</h3>
+      <p class="muted">Safe-write rows not written because the stock changed after it was read. Check them and upload again if the new quantity is still right.</p>
+      <div id="conflictWrap" class="muted">No conflicts yet.</div>
+    </div>
   </div>
 
   <script src="/inventory/upload-ui.js"></script>
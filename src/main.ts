@@ -2,7 +2,7 @@ import { spawn } from 'child_process';
 import { Logger, ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
-import { APP_CONFIG } from './config/shopify.config';
+import { AppConfig, appConfig, maskSecret } from './config/shopify.config';
 
 async function bootstrap(): Promise<void> {
   // Nest application with structured logging enabled.
@@ -19,15 +19,28 @@ async function bootstrap(): Promise<void> {
     }),
   );
 
-  const {port} = APP_CONFIG;
+  const config = app.get<AppConfig>(appConfig.KEY);
+  const { port } = config;
   await app.listen(port);
 
   const logger = new Logger('Bootstrap');
+  config.stores.forEach((store) => {
+    logger.log(
+      `Shopify store "${store.name}"${
+        store.name.toLowerCase() === config.defaultStore.toLowerCase() ? ' (default)' : ''
+      }: ${store.shopName} (API ${store.apiVersion}, token ${maskSecret(store.accessToken)})`,
+    );
+  });
+  if (config.sandbox.enabled) {
+    logger.warn(
+      `SANDBOX mode: Shopify is replaced by an in-memory store seeded from ${config.sandbox.seedFile}`,
+    );
+  }
   const uploadUiUrl = `http://localhost:${port}/inventory/upload-ui`;
   logger.log(`Inventory updater API running on port ${port}`);
   logger.log(`Upload UI: ${uploadUiUrl}`);
 
-  if (APP_CONFIG.openUiOnStart) {
+  if (config.openUiOnStart) {
     openInBrowser(uploadUiUrl, logger);
   }
 }
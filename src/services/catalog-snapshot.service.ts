@@ -0,0 +1,326 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { AppConfig, appConfig } from '../config/shopify.config';
+import { ShopifyStoresService } from './shopify-stores.service';
+import {
+  ShopifyService,
+  ShopifyVariant,
+  VariantLookup,
+  singleVariantMatch,
+} from './shopify.service';
+import { normalizeTitle, pickBestTitleMatch } from './title-similarity';
+
+// Every line of the bulk result is one variant: the query has no nested connections.
+const CATALOG_BULK_QUERY = `
+  {
+    productVariants {
+      edges {
+        node {
+          id
+          sku
+          barcode
+          title
+          selectedOptions {
+            value
+          }
+          inventoryItem {
+            id
+          }
+          product {
+            id
+            handle
+            title
+          }
+        }
+      }
+    }
+  }
+`;
+
+interface BulkVariantRecord {
+  sku?: string | null;
+  barcode?: string | null;
+  title?: string | null;
+  selectedOptions?: Array<{ value: string }> | null;
+  inventoryItem?: { id: string } | null;
+  product?: { id: string; handle: string; title: string } | null;
+}
+
+interface SnapshotProduct {
+  title: string;
+  normalizedTitle: string;
+  variants: ShopifyVariant[];
+}
+
+export interface CatalogSnapshotStatus {
+  store: string;
+  loaded: boolean;
+  loading: boolean;
+  loadedAt?: string;
+  expiresAt?: string;
+  variantCount: number;
+  productCount: number;
+  lastError?: string;
+}
+
+// Variants sharing one SKU or barcode.
+export interface CatalogDuplicate {
+  value: string;
+  variants: ShopifyVariant[];
+}
+
+// Identifier problems across the whole catalog. Duplicates make SKU and barcode rows fail
+// as ambiguous; blank variants can only be matched by handle or title.
+export interface CatalogHealthReport {
+  store: string;
+  checkedAt: string;
+  variantCount: number;
+  productCount: number;
+  duplicateSkus: CatalogDuplicate[];
+  duplicateBarcodes: CatalogDuplicate[];
+  blankSkus: ShopifyVariant[];
+  blankBarcodes: ShopifyVariant[];
+}
+
+// In-memory catalog answering the same lookups as the live GraphQL searches.
+export class CatalogSnapshot implements VariantLookup {
+  private readonly bySku = new Map<string, ShopifyVariant[]>();
+  private readonly byBarcode = new Map<string, ShopifyVariant[]>();
+  private readonly byHandle = new Map<string, ShopifyVariant[]>();
+  private readonly products = new Map<string, SnapshotProduct>();
+  private readonly productsByToken = new Map<string, Set<SnapshotProduct>>();
+
+  constructor(
+    readonly loadedAt: Date,
+    variants: Array<ShopifyVariant & { productId: string }>,
+  ) {
+    variants.forEach((variant) => this.add(variant));
+  }
+
+  get variantCount(): number {
+    return [...this.products.values()].reduce(
+      (total, product) => total + product.variants.length,
+      0,
+    );
+  }
+
+  get productCount(): number {
+    return this.products.size;
+  }
+
+  async getVariantBySku(sku: string): Promise<ShopifyVariant | null> {
+    return singleVariantMatch('SKU', sku, this.bySku.get(this.key(sku)) ?? []);
+  }
+
+  async getVariantByBarcode(barcode: string): Promise<ShopifyVariant | null> {
+    return singleVariantMatch('barcode', barcode, this.byBarcode.get(this.key(barcode)) ?? []);
+  }
+
+  async getVariantsByHandle(handle: string): Promise<ShopifyVariant[]> {
+    return this.byHandle.get(this.key(handle)) ?? [];
+  }
+
+  async getVariantsByTitle(title: string): Promise<ShopifyVariant[]> {
+    // Only products sharing a title word are scored, like the live title search.
+    const candidates = new Set<SnapshotProduct>();
+    this.tokens(normalizeTitle(title)).forEach((token) => {
+      this.productsByToken.get(token)?.forEach((product) => candidates.add(product));
+    });
+
+    const best = pickBestTitleMatch(title, [...candidates], (product) => product.title);
+    return best ? best.variants : [];
+  }
+
+  healthReport(): Omit<CatalogHealthReport, 'store'> {
+    const variants = [...this.products.values()].flatMap((product) => product.variants);
+    return {
+      checkedAt: this.loadedAt.toISOString(),
+      variantCount: variants.length,
+      productCount: this.productCount,
+      duplicateSkus: this.duplicates(this.bySku, 'sku'),
+      duplicateBarcodes: this.duplicates(this.byBarcode, 'barcode'),
+      blankSkus: variants.filter((variant) => !variant.sku.trim()),
+      blankBarcodes: variants.filter((variant) => !variant.barcode?.trim()),
+    };
+  }
+
+  private duplicates(
+    index: Map<string, ShopifyVariant[]>,
+    field: 'sku' | 'barcode',
+  ): CatalogDuplicate[] {
+    return [...index.values()]
+      .filter((variants) => variants.length > 1)
+      .map((variants) => ({ value: variants[0][field] ?? '', variants }))
+      .sort((a, b) => b.variants.length - a.variants.length || a.value.localeCompare(b.value));
+  }
+
+  private add(variant: ShopifyVariant & { productId: string }): void {
+    const { productId, ...entry } = variant;
+
+    // Every variant is kept per SKU/barcode so lookups can report duplicates.
+    if (entry.sku.trim()) {
+      const skuKey = this.key(entry.sku);
+      this.bySku.set(skuKey, [...(this.bySku.get(skuKey) ?? []), entry]);
+    }
+
+    if (entry.barcode?.trim()) {
+      const barcodeKey = this.key(entry.barcode);
+      this.byBarcode.set(barcodeKey, [...(this.byBarcode.get(barcodeKey) ?? []), entry]);
+    }
+
+    if (entry.productHandle) {
+      const handleKey = this.key(entry.productHandle);
+      this.byHandle.set(handleKey, [...(this.byHandle.get(handleKey) ?? []), entry]);
+    }
+
+    let product = this.products.get(productId);
+    if (!product) {
+      const productTitle = entry.productTitle ?? '';
+      product = {
+        title: productTitle,
+        normalizedTitle: normalizeTitle(productTitle),
+        variants: [],
+      };
+      this.products.set(productId, product);
+      this.tokens(product.normalizedTitle).forEach((token) => {
+        const indexed = this.productsByToken.get(token) ?? new Set<SnapshotProduct>();
+        indexed.add(product!);
+        this.productsByToken.set(token, indexed);
+      });
+    }
+
+    product.variants.push(entry);
+  }
+
+  private tokens(normalized: string): string[] {
+    return normalized.split(' ').filter((token) => token);
+  }
+
+  private key(value: string): string {
+    return value.trim().toLowerCase();
+  }
+}
+
+interface StoreSnapshotState {
+  snapshot: CatalogSnapshot | null;
+  loading: Promise<CatalogSnapshot> | null;
+  lastError?: string;
+}
+
+@Injectable()
+export class CatalogSnapshotService {
+  private readonly logger = new Logger(CatalogSnapshotService.name);
+  private readonly ttlMs: number;
+  // Keyed by store name: every store has its own catalog.
+  private readonly states = new Map<string, StoreSnapshotState>();
+
+  constructor(
+    @Inject(appConfig.KEY) config: AppConfig,
+    private readonly shopifyStores: ShopifyStoresService,
+  ) {
+    this.ttlMs = config.catalogSnapshot.ttlMs;
+  }
+
+  // Returns the cached snapshot while it is fresh; concurrent callers share one bulk run.
+  async getSnapshot(storeName?: string, forceRefresh = false): Promise<CatalogSnapshot> {
+    const shopify = this.shopifyStores.get(storeName);
+    const state = this.getState(shopify.storeName);
+
+    if (!forceRefresh && state.snapshot && !this.isExpired(state.snapshot)) {
+      return state.snapshot;
+    }
+
+    if (!state.loading) {
+      state.loading = this.load(shopify, state).finally(() => {
+        state.loading = null;
+      });
+    }
+
+    return state.loading;
+  }
+
+  getStatus(storeName?: string): CatalogSnapshotStatus {
+    const store = this.shopifyStores.get(storeName).storeName;
+    const { snapshot, loading, lastError } = this.getState(store);
+    return {
+      store,
+      loaded: Boolean(snapshot),
+      loading: Boolean(loading),
+      loadedAt: snapshot?.loadedAt.toISOString(),
+      expiresAt: snapshot
+        ? new Date(snapshot.loadedAt.getTime() + this.ttlMs).toISOString()
+        : undefined,
+      variantCount: snapshot?.variantCount ?? 0,
+      productCount: snapshot?.productCount ?? 0,
+      lastError,
+    };
+  }
+
+  // Checks the cached snapshot, loading one first when there is none or it has expired.
+  async getHealth(storeName?: string): Promise<CatalogHealthReport> {
+    const store = this.shopifyStores.get(storeName).storeName;
+    const snapshot = await this.getSnapshot(store);
+    return { store, ...snapshot.healthReport() };
+  }
+
+  private getState(storeName: string): StoreSnapshotState {
+    let state = this.states.get(storeName);
+    if (!state) {
+      state = { snapshot: null, loading: null };
+      this.states.set(storeName, state);
+    }
+
+    return state;
+  }
+
+  private async load(
+    shopify: ShopifyService,
+    state: StoreSnapshotState,
+  ): Promise<CatalogSnapshot> {
+    const startedAt = Date.now();
+    const variants: Array<ShopifyVariant & { productId: string }> = [];
+
+    try {
+      await shopify.runBulkQuery(CATALOG_BULK_QUERY, (record) => {
+        const variant = this.toVariant(record as BulkVariantRecord);
+        if (variant) {
+          variants.push(variant);
+        }
+      });
+    } catch (error: unknown) {
+      state.lastError = error instanceof Error ? error.message : String(error);
+      throw error;
+    }
+
+    const snapshot = new CatalogSnapshot(new Date(), variants);
+    state.snapshot = snapshot;
+    state.lastError = undefined;
+    this.logger.log(
+      `Catalog snapshot for ${shopify.storeName} loaded: ${snapshot.variantCount} variants, ${snapshot.productCount} products in ${Date.now() - startedAt}ms`,
+    );
+
+    return snapshot;
+  }
+
+  private toVariant(
+    record: BulkVariantRecord,
+  ): (ShopifyVariant & { productId: string }) | null {
+    if (!record.inventoryItem?.id || !record.product) {
+      return null;
+    }
+
+    return {
+      productId: record.product.id,
+      sku: record.sku || '',
+      inventoryItemId: record.inventoryItem.id,
+      title: record.title || undefined,
+      barcode: record.barcode || undefined,
+      selectedOptionValues: (record.selectedOptions ?? []).map((option) => option.value),
+      productHandle: record.product.handle,
+      productTitle: record.product.title,
+    };
+  }
+
+  private isExpired(snapshot: CatalogSnapshot): boolean {
+    return Date.now() - snapshot.loadedAt.getTime() >= this.ttlMs;
+  }
+}
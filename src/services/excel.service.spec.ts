@@ -0,0 +1,35 @@
+import { BadRequestException } from '@nestjs/common';
+import * as XLSX from 'xlsx';
+import { ExcelService } from './excel.service';
+
+const workbook = (sheetNames: string[]): Buffer => {
+  const book = XLSX.utils.book_new();
+  sheetNames.forEach((name) => {
+    XLSX.utils.book_append_sheet(book, XLSX.utils.aoa_to_sheet([['SKU', 'Quantity']]), name);
+  });
+  return XLSX.write(book, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+};
+
+describe('ExcelService', () => {
+  const service = new ExcelService();
+  const buffer = workbook(['Downtown', 'Warehouse']);
+
+  describe('assertSheetSelection', () => {
+    it('rejects a sheet the workbook does not have', () => {
+      expect(() => service.assertSheetSelection(buffer, { sheet: 'Uptown' })).toThrow(
+        new BadRequestException('Sheet "Uptown" not found. Available sheets: Downtown, Warehouse'),
+      );
+    });
+
+    it('accepts a sheet by name, in any case, or by position', () => {
+      expect(() => service.assertSheetSelection(buffer, { sheet: 'warehouse' })).not.toThrow();
+      expect(() => service.assertSheetSelection(buffer, { sheet: '2' })).not.toThrow();
+    });
+
+    it('ignores the sheet when every sheet is read', () => {
+      expect(() =>
+        service.assertSheetSelection(buffer, { sheet: 'Uptown', mode: 'all' }),
+      ).not.toThrow();
+    });
+  });
+});
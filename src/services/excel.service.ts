@@ -1,90 +1,88 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import * as XLSX from 'xlsx';
-import { ParsedInventoryRow, ResultRow } from '../inventory/inventory.types';
+import {
+  ColumnMapping,
+  ParsedInventoryRow,
+  QuantityMode,
+  ResultRow,
+  SheetSelection,
+} from '../inventory/inventory.types';
+import { INVENTORY_ADJUST_REASONS, InventoryQuantityName } from './shopify.service';
 
-@Injectable()
-export class ExcelService {
-  private readonly skuColumns = ['SKU', 'sku', 'Variant SKU', 'variant sku'];
-  private readonly itemCodeColumns = ['Item Code', 'item code', 'Item Code_New', 'item code_new'];
-  private readonly handleColumns = ['Handle', 'handle'];
-  private readonly titleColumns = ['Title', 'title', 'Item Name', 'item name'];
-  private readonly barcodeColumns = [
-    'Variant Barcode',
-    'variant barcode',
-    'Barcode',
-    'barcode',
-    'Barcode Value',
-    'barcode value',
-    'Ean Code',
-    'ean code',
-  ];
-  private readonly optionValueColumns = [
+// Built-in header aliases; exposed as the read-only "default" mapping profile.
+// Header matching is case-insensitive and ignores surrounding whitespace.
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  sku: ['SKU', 'Variant SKU'],
+  itemCode: ['Item Code', 'Item Code_New'],
+  handle: ['Handle'],
+  title: ['Title', 'Item Name'],
+  barcode: ['Variant Barcode', 'Barcode', 'Barcode Value', 'Ean Code'],
+  optionValues: [
     'Option1 Value',
-    'option1 value',
     'Option2 Value',
-    'option2 value',
     'Option3 Value',
-    'option3 value',
     'Size',
-    'size',
     'Colour',
-    'colour',
     'Color',
-    'color',
-  ];
-  private readonly closingStockColumns = [
+  ],
+  location: [
+    'ShopifyLocationName',
+    'Location',
+    'Location Name',
+    'Inventory Location',
+  ],
+  bin: ['Bin name', 'Bin'],
+  closingStock: [
     'Closing Stock',
-    'closing stock',
     'Closing Stock On Qty',
-    'closing stock on qty',
-    'On hand (new)',
-    'on hand (new)',
     'Available (not editable)',
-    'available (not editable)',
     'Quantity',
-    'quantity',
     'Variant Inventory Qty',
-    'variant inventory qty',
-  ];
-  private readonly openingStockColumns = [
-    'Opening Stock',
-    'opening stock',
-    'Opening Stock Qty',
-    'opening stock qty',
-    'On hand (current)',
-    'on hand (current)',
-    'Available',
-    'available',
-  ];
-  private readonly stockMovementColumns = [
-    'Stock Movement',
-    'stock movement',
-    'Movement',
-    'movement',
-    'Net Movement',
-    'net movement',
-    'Adjustment',
-    'adjustment',
-  ];
-  private readonly inwardColumns = ['Inward Stock', 'inward stock', 'Received Qty', 'received qty'];
-  private readonly outwardColumns = ['Out Qty', 'out qty', 'Sold Qty', 'sold qty'];
-  private readonly locationColumns = [
-    'ShopifyLocationName',
-    'shopifyLocationName',
-    'Location',
-    'location',
-    'Location Name',
-    'location name',
-    'Inventory Location',
-    'inventory location',
-  ];
-  private readonly binColumns = ['Bin name', 'bin name', 'Bin', 'bin'];
+  ],
+  openingStock: ['Opening Stock', 'Opening Stock Qty', 'On hand (current)', 'Available'],
+  stockMovement: ['Stock Movement', 'Movement', 'Net Movement', 'Adjustment'],
+  inward: ['Inward Stock', 'Received Qty'],
+  outward: ['Out Qty', 'Sold Qty'],
+  onHand: ['On hand (new)'],
+  damaged: ['Damaged', 'Damaged Qty'],
+  qualityControl: ['Quality Control', 'QC Qty'],
+  safetyStock: ['Safety Stock'],
+  reserved: ['Reserved', 'Reserved Qty'],
+  adjustReason: ['Reason', 'Adjustment Reason', 'Reason Code'],
+};
+
+// Mapping fields whose columns hold a quantity state other than available.
+const STATE_COLUMNS: Array<[InventoryQuantityName, keyof ColumnMapping]> = [
+  ['on_hand', 'onHand'],
+  ['damaged', 'damaged'],
+  ['quality_control', 'qualityControl'],
+  ['safety_stock', 'safetyStock'],
+  ['reserved', 'reserved'],
+];
+
+// Identifies a file row across sheets; used to find the original cells of a result row.
+export const sourceRowKey = (sheetName: string | undefined, rowNumber: number): string =>
+  `${sheetName ?? ''}!${rowNumber}`;
 
-  parseInventoryRows(buffer: Buffer): {
+interface QuantityDecision {
+  quantity: number | null;
+  source: string;
+  reason?: string;
+}
+
+@Injectable()
+export class ExcelService {
+  parseInventoryRows(
+    buffer: Buffer,
+    columns: ColumnMapping = DEFAULT_COLUMN_MAPPING,
+    selection: SheetSelection = {},
+    quantityMode: QuantityMode = 'set',
+  ): {
     parsedRows: ParsedInventoryRow[];
     skippedRows: ResultRow[];
+    // Original cells of every data row, keyed by sourceRowKey, in header order.
+    sourceRows: Map<string, Record<string, unknown>>;
   } {
-    // Parse only the first worksheet as requested.
     const workbook = XLSX.read(buffer, { type: 'buffer' });
 
     if (!workbook.SheetNames.length) {
@@ -100,11 +98,93 @@ export class ExcelService {
             reason: 'Workbook has no sheets',
           },
         ],
+        sourceRows: new Map(),
       };
     }
 
-    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(firstSheet, {
+    const parsedRows: ParsedInventoryRow[] = [];
+    const skippedRows: ResultRow[] = [];
+    const sourceRows = new Map<string, Record<string, unknown>>();
+
+    if (selection.mode === 'all') {
+      // Sheet-per-location workbooks: one tab per branch.
+      workbook.SheetNames.forEach((sheetName) => {
+        const result = this.parseSheet(
+          workbook.Sheets[sheetName],
+          columns,
+          quantityMode,
+          sheetName,
+          sourceRows,
+        );
+        parsedRows.push(...result.parsedRows);
+        skippedRows.push(...result.skippedRows);
+      });
+
+      return { parsedRows, skippedRows, sourceRows };
+    }
+
+    const sheetName = this.selectSheetName(workbook.SheetNames, selection.sheet);
+    return {
+      ...this.parseSheet(
+        workbook.Sheets[sheetName],
+        columns,
+        quantityMode,
+        undefined,
+        sourceRows,
+      ),
+      sourceRows,
+    };
+  }
+
+  // Checks the requested sheet before a job is queued, so a wrong name is answered with a 400
+  // instead of failing the background job. Only the sheet names are read.
+  assertSheetSelection(buffer: Buffer, selection: SheetSelection): void {
+    if (selection.mode === 'all' || !selection.sheet?.trim()) {
+      return;
+    }
+
+    const { SheetNames } = XLSX.read(buffer, { type: 'buffer', bookSheets: true });
+    if (SheetNames.length) {
+      this.selectSheetName(SheetNames, selection.sheet);
+    }
+  }
+
+  // Accepts an exact sheet name (case-insensitive) or a 1-based sheet position.
+  private selectSheetName(sheetNames: string[], requested?: string): string {
+    const wanted = requested?.trim();
+    if (!wanted) {
+      return sheetNames[0];
+    }
+
+    const byName = sheetNames.find((name) => name.trim().toLowerCase() === wanted.toLowerCase());
+    if (byName) {
+      return byName;
+    }
+
+    if (/^\d+$/.test(wanted)) {
+      const position = Number(wanted);
+      if (position >= 1 && position <= sheetNames.length) {
+        return sheetNames[position - 1];
+      }
+    }
+
+    throw new BadRequestException(
+      `Sheet "${wanted}" not found. Available sheets: ${sheetNames.join(', ')}`,
+    );
+  }
+
+  // When sheetName is given it is stamped on every row and used as the fallback location.
+  private parseSheet(
+    sheet: XLSX.WorkSheet,
+    columns: ColumnMapping,
+    quantityMode: QuantityMode,
+    sheetName?: string,
+    sourceRows?: Map<string, Record<string, unknown>>,
+  ): {
+    parsedRows: ParsedInventoryRow[];
+    skippedRows: ResultRow[];
+  } {
+    const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
       defval: '',
       raw: true,
     });
@@ -114,24 +194,29 @@ export class ExcelService {
 
     rows.forEach((rawRow, index) => {
       const rowNumber = index + 2;
+      sourceRows?.set(sourceRowKey(sheetName, rowNumber), rawRow);
       // Support common header casing variants.
-      const sku = this.getString(rawRow, this.skuColumns).trim();
-      const itemCode = this.getString(rawRow, this.itemCodeColumns).trim();
-      const handle = this.getString(rawRow, this.handleColumns).trim();
-      const title = this.getString(rawRow, this.titleColumns).trim();
-      const variantBarcode = this.getString(rawRow, this.barcodeColumns).trim();
-      const optionValues = this.optionValueColumns
+      const sku = this.getString(rawRow, columns.sku).trim();
+      const itemCode = this.getString(rawRow, columns.itemCode).trim();
+      const handle = this.getString(rawRow, columns.handle).trim();
+      const title = this.getString(rawRow, columns.title).trim();
+      const variantBarcode = this.getString(rawRow, columns.barcode).trim();
+      const optionValues = columns.optionValues
         .map((column) => this.getString(rawRow, [column]).trim())
         .filter((value) => value !== '');
-      const locationName = this.getString(rawRow, this.locationColumns).trim();
-      const binName = this.getString(rawRow, this.binColumns).trim();
-      const quantityDecision = this.resolveQuantity(rawRow);
+      const locationName =
+        this.getString(rawRow, columns.location).trim() || (sheetName ?? '').trim();
+      const binName = this.getString(rawRow, columns.bin).trim();
+      const quantityDecisions = this.resolveQuantities(rawRow, columns, quantityMode);
+      const adjustReason = this.getString(rawRow, columns.adjustReason ?? []).trim();
+      const quantityDecision = quantityDecisions[0];
       const quantityMissing = quantityDecision.quantity == null;
       const quantity = quantityDecision.quantity ?? 0;
 
       if (!sku && !itemCode && !handle && !variantBarcode && !title) {
         skippedRows.push({
           rowNumber,
+          sheetName,
           sku,
           itemName: title,
           locationName,
@@ -144,6 +229,7 @@ export class ExcelService {
       if (quantityMissing) {
         skippedRows.push({
           rowNumber,
+          sheetName,
           sku,
           itemName: title,
           locationName,
@@ -154,31 +240,46 @@ export class ExcelService {
         return;
       }
 
-      if (!Number.isFinite(quantity) || quantity < 0 || !Number.isInteger(quantity)) {
-        skippedRows.push({
+      // One parsed row per quantity state the file row fills.
+      quantityDecisions.forEach(({ name: quantityName, quantity: value, source }) => {
+        const stateQuantity = value ?? 0;
+        const quantityProblem =
+          quantityMode === 'adjust'
+            ? this.checkAdjustment(stateQuantity, adjustReason)
+            : this.checkQuantity(stateQuantity);
+        if (quantityProblem) {
+          skippedRows.push({
+            rowNumber,
+            sheetName,
+            sku,
+            itemName: title,
+            locationName,
+            quantity: Number.isFinite(stateQuantity) ? stateQuantity : 0,
+            reason: quantityProblem,
+            calculationSource: source,
+            quantityName,
+          });
+          return;
+        }
+
+        parsedRows.push({
           rowNumber,
+          sheetName,
           sku,
-          itemName: title,
-          locationName,
-          quantity: Number.isFinite(quantity) ? quantity : 0,
-          reason: 'Quantity must be a non-negative integer',
-          calculationSource: quantityDecision.source,
+          itemCode,
+          handle,
+          variantBarcode,
+          title,
+          optionValues,
+          quantity: stateQuantity,
+          quantityName,
+          calculationSource: source,
+          shopifyLocationName: locationName,
+          binName,
+          ...(quantityMode === 'adjust' && adjustReason
+            ? { adjustReason: this.normalizeReason(adjustReason) }
+            : {}),
         });
-        return;
-      }
-
-      parsedRows.push({
-        rowNumber,
-        sku,
-        itemCode,
-        handle,
-        variantBarcode,
-        title,
-        optionValues,
-        quantity,
-        calculationSource: quantityDecision.source,
-        shopifyLocationName: locationName,
-        binName,
       });
     });
 
@@ -244,12 +345,94 @@ export class ExcelService {
     return Number.isFinite(parsed) ? parsed : null;
   }
 
-  private resolveQuantity(row: Record<string, unknown>): {
-    quantity: number | null;
-    source: string;
-    reason?: string;
-  } {
-    const closing = this.parseQuantity(this.getValue(row, this.closingStockColumns));
+  // The main stock columns target available; each filled state column adds its own quantity.
+  // A row that sets on_hand drops the available value: both describe the same sellable stock.
+  private resolveQuantities(
+    row: Record<string, unknown>,
+    columns: ColumnMapping,
+    quantityMode: QuantityMode,
+  ): Array<QuantityDecision & { name: InventoryQuantityName }> {
+    const primary =
+      quantityMode === 'adjust'
+        ? this.resolveAdjustment(row, columns)
+        : this.resolveQuantity(row, columns);
+    const states = STATE_COLUMNS.flatMap(([name, field]) => {
+      const quantity = this.parseQuantity(this.getValue(row, columns[field] ?? []));
+      return quantity == null ? [] : [{ name, quantity, source: `${name}_column` }];
+    });
+
+    const setsOnHand = states.some((state) => state.name === 'on_hand');
+    if (setsOnHand || (states.length && primary.quantity == null)) {
+      return states;
+    }
+
+    return [{ ...primary, name: 'available' }, ...states];
+  }
+
+  private checkQuantity(quantity: number): string | null {
+    return Number.isFinite(quantity) && quantity >= 0 && Number.isInteger(quantity)
+      ? null
+      : 'Quantity must be a non-negative integer';
+  }
+
+  private checkAdjustment(delta: number, reason: string): string | null {
+    if (!Number.isFinite(delta) || !Number.isInteger(delta)) {
+      return 'Movement must be a whole number';
+    }
+
+    if (delta === 0) {
+      return 'No movement to apply';
+    }
+
+    if (
+      reason &&
+      !(INVENTORY_ADJUST_REASONS as readonly string[]).includes(this.normalizeReason(reason))
+    ) {
+      return `Unknown adjustment reason "${reason}". Use one of: ${INVENTORY_ADJUST_REASONS.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  // "Cycle count available" and "cycle-count-available" both mean cycle_count_available.
+  private normalizeReason(reason: string): string {
+    return reason.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  }
+
+  // Adjust mode: the movement columns are the change itself; opening/closing stock is ignored.
+  private resolveAdjustment(
+    row: Record<string, unknown>,
+    columns: ColumnMapping,
+  ): QuantityDecision {
+    const movement = this.parseQuantity(this.getValue(row, columns.stockMovement));
+    if (movement != null) {
+      return {
+        quantity: Math.round(movement),
+        source: 'movement_direct',
+      };
+    }
+
+    const inward = this.parseQuantity(this.getValue(row, columns.inward));
+    const outward = this.parseQuantity(this.getValue(row, columns.outward));
+    if (inward != null || outward != null) {
+      return {
+        quantity: Math.round((inward ?? 0) - (outward ?? 0)),
+        source: 'inward_minus_outward',
+      };
+    }
+
+    return {
+      quantity: null,
+      source: 'missing_movement_fields',
+      reason: 'Missing movement values. Adjust mode needs Stock Movement, or Inward/Out Qty',
+    };
+  }
+
+  private resolveQuantity(
+    row: Record<string, unknown>,
+    columns: ColumnMapping,
+  ): QuantityDecision {
+    const closing = this.parseQuantity(this.getValue(row, columns.closingStock));
     if (closing != null) {
       return {
         quantity: Math.max(0, Math.round(closing)),
@@ -257,8 +440,8 @@ export class ExcelService {
       };
     }
 
-    const opening = this.parseQuantity(this.getValue(row, this.openingStockColumns));
-    const movement = this.parseQuantity(this.getValue(row, this.stockMovementColumns));
+    const opening = this.parseQuantity(this.getValue(row, columns.openingStock));
+    const movement = this.parseQuantity(this.getValue(row, columns.stockMovement));
     if (opening != null && movement != null) {
       return {
         quantity: Math.max(0, Math.round(opening + movement)),
@@ -266,8 +449,8 @@ export class ExcelService {
       };
     }
 
-    const inward = this.parseQuantity(this.getValue(row, this.inwardColumns));
-    const outward = this.parseQuantity(this.getValue(row, this.outwardColumns));
+    const inward = this.parseQuantity(this.getValue(row, columns.inward));
+    const outward = this.parseQuantity(this.getValue(row, columns.outward));
     if (opening != null && (inward != null || outward != null)) {
       const inwardValue = inward ?? 0;
       const outwardValue = outward ?? 0;
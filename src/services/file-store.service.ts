@@ -0,0 +1,68 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AppConfig, appConfig } from '../config/shopify.config';
+
+@Injectable()
+export class FileStoreService {
+  private readonly rootDir: string;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(@Inject(appConfig.KEY) config: AppConfig) {
+    this.rootDir = path.resolve(config.dataDir);
+  }
+
+  async readJson<T>(relativePath: string, fallback: T): Promise<T> {
+    try {
+      const raw = await fs.readFile(this.resolve(relativePath), 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return fallback;
+      }
+
+      throw error;
+    }
+  }
+
+  // Writes are serialized and go through a temp file so readers never see partial JSON.
+  async writeJson(relativePath: string, value: unknown): Promise<void> {
+    await this.enqueue(() => this.writeAtomic(relativePath, value));
+  }
+
+  // Read-modify-write under the same queue, for index files shared by concurrent jobs.
+  async updateJson<T>(
+    relativePath: string,
+    fallback: T,
+    update: (current: T) => T,
+  ): Promise<T> {
+    return this.enqueue(async () => {
+      const next = update(await this.readJson(relativePath, fallback));
+      await this.writeAtomic(relativePath, next);
+      return next;
+    });
+  }
+
+  private async writeAtomic(relativePath: string, value: unknown): Promise<void> {
+    const target = this.resolve(relativePath);
+    const tempFile = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(value, null, 2), 'utf8');
+    await fs.rename(tempFile, target);
+  }
+
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(operation, operation);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private resolve(relativePath: string): string {
+    const resolved = path.resolve(this.rootDir, relativePath);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Path escapes data directory: ${relativePath}`);
+    }
+
+    return resolved;
+  }
+}
@@ -0,0 +1,119 @@
+export interface ShopifyThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+export interface ShopifyQueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: ShopifyThrottleStatus;
+}
+
+// Client-side mirror of Shopify's GraphQL leaky bucket.
+// Every response resyncs the bucket from extensions.cost, so callers only wait when the
+// next query would spend more points than are available (including queries in flight).
+export class ShopifyRateLimiter {
+  private maximumAvailable: number | null = null;
+  private available = 0;
+  private restoreRate = 0;
+  private syncedAt = 0;
+  private inFlight = 0;
+  private readonly costByOperation = new Map<string, number>();
+  private readonly waiters: Array<() => void> = [];
+  private wakeTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly defaultQueryCost: number) {}
+
+  // Reserves the expected cost of an operation; resolves once the bucket can afford it.
+  async acquire(operation: string): Promise<number> {
+    const cost = this.expectedCost(operation);
+
+    while (true) {
+      const reserved = this.tryReserve(cost);
+      if (reserved != null) {
+        return reserved;
+      }
+
+      await new Promise<void>((resolve) => {
+        this.waiters.push(resolve);
+        this.scheduleWake(cost);
+      });
+    }
+  }
+
+  // Returns the reservation; the response cost (when present) becomes the new bucket state.
+  release(operation: string, reserved: number, cost?: ShopifyQueryCost): void {
+    this.inFlight = Math.max(0, this.inFlight - reserved);
+
+    if (cost?.throttleStatus) {
+      const { maximumAvailable, currentlyAvailable, restoreRate } = cost.throttleStatus;
+      this.maximumAvailable = maximumAvailable;
+      this.available = currentlyAvailable;
+      this.restoreRate = restoreRate;
+      this.syncedAt = Date.now();
+      this.costByOperation.set(operation, cost.requestedQueryCost);
+    } else if (this.maximumAvailable != null) {
+      // No cost data (e.g. HTTP error): assume the points were spent.
+      this.refill();
+      this.available = Math.max(0, this.available - reserved);
+    }
+
+    this.wakeAll();
+  }
+
+  private tryReserve(cost: number): number | null {
+    if (this.maximumAvailable == null) {
+      // Bucket size unknown until the first response; let one query through to learn it.
+      if (this.inFlight > 0) {
+        return null;
+      }
+
+      this.inFlight += cost;
+      return cost;
+    }
+
+    this.refill();
+    const affordable = Math.min(cost, this.maximumAvailable);
+    const canRestore = this.restoreRate > 0 || this.inFlight > 0;
+    if (canRestore && this.available - this.inFlight < affordable) {
+      return null;
+    }
+
+    this.inFlight += affordable;
+    return affordable;
+  }
+
+  private refill(): void {
+    if (this.maximumAvailable == null) {
+      return;
+    }
+
+    const now = Date.now();
+    const restored = ((now - this.syncedAt) / 1000) * this.restoreRate;
+    this.available = Math.min(this.maximumAvailable, this.available + restored);
+    this.syncedAt = now;
+  }
+
+  private scheduleWake(cost: number): void {
+    if (this.wakeTimer || this.maximumAvailable == null || this.restoreRate <= 0) {
+      // Woken by the next release instead.
+      return;
+    }
+
+    const missing = Math.min(cost, this.maximumAvailable) - (this.available - this.inFlight);
+    const waitMs = Math.max(10, Math.ceil((missing / this.restoreRate) * 1000));
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.wakeAll();
+    }, waitMs);
+  }
+
+  private wakeAll(): void {
+    this.waiters.splice(0).forEach((resolve) => resolve());
+  }
+
+  private expectedCost(operation: string): number {
+    return this.costByOperation.get(operation) ?? this.defaultQueryCost;
+  }
+}
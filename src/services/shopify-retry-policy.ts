@@ -0,0 +1,104 @@
+import {
+  HttpLikeError,
+  ShopifyGraphqlError,
+  ShopifyNetworkError,
+} from './shopify.errors';
+
+const RETRYABLE_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+
+export type ShopifyFailureKind = 'throttled' | 'unavailable' | 'permanent';
+
+export interface ShopifyFailure {
+  kind: ShopifyFailureKind;
+  retryAfterMs?: number;
+}
+
+// throttled: Shopify is up but asked us to slow down (HTTP 429, GraphQL THROTTLED).
+// unavailable: Shopify (or the network) did not serve the request (5xx, fetch failures).
+// permanent: anything else; retrying would give the same answer.
+export function classifyShopifyError(error: unknown): ShopifyFailure {
+  if (error instanceof ShopifyNetworkError) {
+    return { kind: 'unavailable' };
+  }
+
+  if (error instanceof ShopifyGraphqlError) {
+    return error.codes.includes('THROTTLED')
+      ? { kind: 'throttled', retryAfterMs: error.retryAfterMs }
+      : { kind: 'permanent' };
+  }
+
+  if (error instanceof HttpLikeError && RETRYABLE_STATUS_CODES.has(error.statusCode)) {
+    return {
+      kind: error.statusCode === 429 ? 'throttled' : 'unavailable',
+      retryAfterMs: error.retryAfterMs,
+    };
+  }
+
+  return { kind: 'permanent' };
+}
+
+// Exponential backoff with equal jitter; a Retry-After from Shopify is a lower bound.
+export function computeBackoffMs(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  retryAfterMs?: number,
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.round(Math.max(jittered, retryAfterMs ?? 0));
+}
+
+// Retry-After is either delay-seconds or an HTTP date.
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Opens after failureThreshold consecutive "unavailable" failures and rejects calls for
+// cooldownMs. After the cooldown one failure reopens it; any success closes it.
+export class ShopifyCircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastFailure = '';
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  // Returns the reason the circuit is open, or null when calls may proceed.
+  openReason(): string | null {
+    if (this.consecutiveFailures < this.failureThreshold) {
+      return null;
+    }
+
+    const remainingMs = this.openedAt + this.cooldownMs - Date.now();
+    if (remainingMs <= 0) {
+      return null;
+    }
+
+    return `Shopify unavailable: ${this.consecutiveFailures} consecutive requests failed (last error: ${this.lastFailure}). Paused for ${Math.ceil(remainingMs / 1000)}s`;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+  }
+
+  recordFailure(message: string): void {
+    this.consecutiveFailures += 1;
+    this.lastFailure = message;
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,704 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { SandboxConfig } from '../config/shopify.config';
+import { ShopifyQueryCost } from './shopify-rate-limiter';
+import { ShopifyTransport } from './shopify-transport';
+
+type SandboxQuantities = Record<string, number>;
+
+// Seed file shape. Inventory is keyed by location name: a number sets "available", an object
+// sets individual quantity states (available, committed, damaged, quality_control, ...).
+export interface SandboxSeed {
+  locations: Array<{ name: string }>;
+  collections?: Array<{ handle: string; title?: string }>;
+  products: Array<{
+    handle: string;
+    title: string;
+    vendor?: string;
+    productType?: string;
+    tags?: string[];
+    // Collection handles.
+    collections?: string[];
+    variants: Array<{
+      sku?: string;
+      barcode?: string;
+      options?: string[];
+      inventory?: Record<string, number | SandboxQuantities>;
+      // Every write to this variant is rejected with this userError message.
+      userError?: string;
+    }>;
+  }>;
+}
+
+interface FakeLocation {
+  id: string;
+  name: string;
+}
+
+interface FakeProduct {
+  id: string;
+  handle: string;
+  title: string;
+  vendor: string;
+  productType: string;
+  tags: string[];
+  collectionIds: string[];
+  variants: FakeVariant[];
+}
+
+interface FakeVariant {
+  id: string;
+  inventoryItemId: string;
+  sku: string;
+  barcode: string;
+  title: string;
+  options: string[];
+  product: FakeProduct;
+  userError?: string;
+}
+
+interface FakeCollection {
+  id: string;
+  handle: string;
+}
+
+interface UserError {
+  field: string[];
+  message: string;
+  code: string | null;
+}
+
+type Variables = Record<string, unknown>;
+
+// on_hand is not stored: it is the sum of every other state, as in Shopify.
+const STORED_QUANTITY_NAMES = [
+  'available',
+  'committed',
+  'damaged',
+  'quality_control',
+  'safety_stock',
+  'reserved',
+];
+
+const QUERY_COST = 10;
+const BUCKET_SIZE = 2000;
+const RESTORE_RATE = 100;
+const BULK_URL_PREFIX = 'sandbox://bulk-operations/';
+
+// Reads and checks the seed file once at startup; a bad seed stops the app.
+export function loadSandboxSeed(seedFile: string): SandboxSeed {
+  const filePath = path.resolve(seedFile);
+  let seed: SandboxSeed;
+  try {
+    seed = JSON.parse(readFileSync(filePath, 'utf8')) as SandboxSeed;
+  } catch (error: unknown) {
+    throw new Error(
+      `Invalid sandbox seed ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const problems: string[] = [];
+  if (!Array.isArray(seed.locations) || !seed.locations.length) {
+    problems.push('locations must list at least one location');
+  }
+  if (!Array.isArray(seed.products)) {
+    problems.push('products must be a list');
+  }
+
+  const locationNames = new Set((seed.locations ?? []).map((location) => location.name));
+  const collectionHandles = new Set(
+    (seed.collections ?? []).map((collection) => collection.handle),
+  );
+  (Array.isArray(seed.products) ? seed.products : []).forEach((product, index) => {
+    const label = `products.${product.handle || index}`;
+    if (!product.handle || !product.title) {
+      problems.push(`${label} needs a handle and a title`);
+    }
+    if (!Array.isArray(product.variants) || !product.variants.length) {
+      problems.push(`${label} needs at least one variant`);
+      return;
+    }
+
+    (product.collections ?? [])
+      .filter((handle) => !collectionHandles.has(handle))
+      .forEach((handle) => problems.push(`${label} uses unknown collection "${handle}"`));
+    product.variants.forEach((variant) => {
+      Object.keys(variant.inventory ?? {})
+        .filter((name) => !locationNames.has(name))
+        .forEach((name) => problems.push(`${label} stocks unknown location "${name}"`));
+    });
+  });
+
+  if (problems.length) {
+    const lines = problems.map((problem) => `  - ${problem}`);
+    throw new Error(`Invalid sandbox seed ${filePath}:\n${lines.join('\n')}`);
+  }
+
+  return seed;
+}
+
+// Answers ShopifyService's GraphQL operations from in-memory data, so staff can practise
+// and new file formats can be tried without touching a live shop. Requests are routed by
+// operation name, so a new query in ShopifyService needs a handler here as well.
+// Changes are kept in memory and lost on restart.
+export class SandboxShopifyTransport implements ShopifyTransport {
+  private readonly logger: Logger;
+  private readonly locations: FakeLocation[] = [];
+  private readonly products: FakeProduct[] = [];
+  private readonly variants: FakeVariant[] = [];
+  private readonly collections: FakeCollection[] = [];
+  // Keyed by "<inventoryItemId>|<locationId>"; a missing key means not stocked there.
+  private readonly levels = new Map<string, SandboxQuantities>();
+  private readonly bulkResults = new Map<string, string[]>();
+  private nextId = 1;
+
+  constructor(
+    storeName: string,
+    seed: SandboxSeed,
+    private readonly config: Pick<SandboxConfig, 'throttleRate' | 'userErrorRate'>,
+  ) {
+    this.logger = new Logger(`SandboxShopify:${storeName}`);
+    this.load(seed);
+  }
+
+  async send(query: string, variables: Variables = {}): Promise<Response> {
+    const operation = query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1] ?? 'anonymous';
+
+    if (Math.random() < this.config.throttleRate) {
+      return this.respond({
+        errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }],
+        extensions: { cost: this.cost(0) },
+      });
+    }
+
+    const handler = this.handlers[operation];
+    if (!handler) {
+      return this.respond({
+        errors: [{ message: `Sandbox does not support the ${operation} operation` }],
+      });
+    }
+
+    return this.respond({ data: handler(variables), extensions: { cost: this.cost() } });
+  }
+
+  async download(url: string): Promise<Response> {
+    const lines = this.bulkResults.get(url);
+    if (!lines) {
+      return new Response('Not found', { status: 404 });
+    }
+
+    return new Response(lines.map((line) => `${line}\n`).join(''), { status: 200 });
+  }
+
+  private readonly handlers: Record<string, (variables: Variables) => unknown> = {
+    GetLocations: (variables) => ({
+      locations: this.page(this.locations, variables),
+    }),
+    VariantBySku: (variables) => ({
+      productVariants: this.page(
+        this.findVariants('sku', variables).map((variant) => ({
+          ...this.variantNode(variant),
+          product: { handle: variant.product.handle, title: variant.product.title },
+        })),
+        variables,
+      ),
+    }),
+    VariantByBarcode: (variables) => ({
+      productVariants: this.page(
+        this.findVariants('barcode', variables).map((variant) => ({
+          ...this.variantNode(variant),
+          product: { handle: variant.product.handle, title: variant.product.title },
+        })),
+        variables,
+      ),
+    }),
+    // The first variants page is nested under the single matching product.
+    VariantsByHandle: (variables) => ({
+      products: this.page(
+        this.findProducts(variables).map((product) => this.productNode(product, variables)),
+        { first: 1 },
+      ),
+    }),
+    ProductsByTitle: (variables) => ({
+      products: this.page(
+        this.findProducts(variables).map((product) => this.productNode(product)),
+        variables,
+      ),
+    }),
+    ProductVariants: (variables) => {
+      const product = this.products.find((candidate) => candidate.id === variables.id);
+      return {
+        product: product
+          ? {
+              variants: this.page(
+                product.variants.map((variant) => this.variantNode(variant)),
+                variables,
+              ),
+            }
+          : null,
+      };
+    },
+    CurrentInventory: (variables) => {
+      const variant = this.variantByItemId(String(variables.inventoryItemId));
+      if (!variant) {
+        return { inventoryItem: null };
+      }
+
+      const quantities = this.levels.get(this.levelKey(variant, String(variables.locationId)));
+      const names = (variables.names as string[] | undefined) ?? ['available'];
+      return {
+        inventoryItem: {
+          inventoryLevel: quantities
+            ? { quantities: names.map((name) => ({ name, quantity: this.read(quantities, name) })) }
+            : null,
+        },
+      };
+    },
+    ItemLocations: (variables) => {
+      const variant = this.variantByItemId(String(variables.inventoryItemId));
+      if (!variant) {
+        return { inventoryItem: null };
+      }
+
+      const stocked = this.locations.filter((location) =>
+        this.levels.has(this.levelKey(variant, location.id)),
+      );
+      return {
+        inventoryItem: {
+          inventoryLevels: this.page(
+            stocked.map((location) => ({ location: { id: location.id } })),
+            variables,
+          ),
+        },
+      };
+    },
+    InventoryItemProducts: (variables) => ({
+      nodes: ((variables.ids as string[] | undefined) ?? []).map((id) => {
+        const variant = this.variantByItemId(id);
+        return variant
+          ? {
+              id,
+              variant: {
+                product: {
+                  vendor: variant.product.vendor,
+                  productType: variant.product.productType,
+                  tags: variant.product.tags,
+                },
+              },
+            }
+          : null;
+      }),
+    }),
+    LocationInventoryLevels: (variables) => {
+      const location = this.locations.find((candidate) => candidate.id === variables.locationId);
+      if (!location) {
+        return { location: null };
+      }
+
+      const nodes = this.variants
+        .filter((variant) => this.levels.has(this.levelKey(variant, location.id)))
+        .map((variant) => ({
+          quantities: [
+            {
+              name: 'available',
+              quantity: this.read(
+                this.levels.get(this.levelKey(variant, location.id))!,
+                'available',
+              ),
+            },
+          ],
+          item: {
+            id: variant.inventoryItemId,
+            tracked: true,
+            variant: {
+              ...this.variantNode(variant),
+              product: {
+                id: variant.product.id,
+                handle: variant.product.handle,
+                title: variant.product.title,
+                vendor: variant.product.vendor,
+                productType: variant.product.productType,
+              },
+            },
+          },
+        }));
+      return { location: { inventoryLevels: this.page(nodes, variables) } };
+    },
+    CollectionByHandle: (variables) => {
+      const handle = this.searchValue(variables, 'handle').toLowerCase();
+      return {
+        collections: this.page(
+          this.collections
+            .filter((collection) => collection.handle.toLowerCase() === handle)
+            .map((collection) => ({ id: collection.id })),
+          variables,
+        ),
+      };
+    },
+    CollectionProducts: (variables) => {
+      if (!this.collections.some((collection) => collection.id === variables.id)) {
+        return { collection: null };
+      }
+
+      const products = this.products
+        .filter((product) => product.collectionIds.includes(String(variables.id)))
+        .map((product) => ({ id: product.id }));
+      return { collection: { products: this.page(products, variables) } };
+    },
+    SetInventory: (variables) => ({
+      inventorySetQuantities: { userErrors: this.setQuantities(variables.input as Variables) },
+    }),
+    AdjustInventory: (variables) => ({
+      inventoryAdjustQuantities: {
+        userErrors: this.adjustQuantities(variables.input as Variables),
+      },
+    }),
+    // Completes at once; the result lists every variant in the catalog snapshot's format.
+    RunBulkQuery: () => {
+      const id = this.gid('BulkOperation');
+      this.bulkResults.set(
+        `${BULK_URL_PREFIX}${id.split('/').pop()}.jsonl`,
+        this.variants.map((variant) =>
+          JSON.stringify({
+            id: variant.id,
+            ...this.variantNode(variant),
+            product: {
+              id: variant.product.id,
+              handle: variant.product.handle,
+              title: variant.product.title,
+            },
+          }),
+        ),
+      );
+      return {
+        bulkOperationRunQuery: { bulkOperation: { id, status: 'CREATED' }, userErrors: [] },
+      };
+    },
+    BulkOperationStatus: (variables) => {
+      const url = `${BULK_URL_PREFIX}${String(variables.id).split('/').pop()}.jsonl`;
+      const lines = this.bulkResults.get(url);
+      return {
+        node: lines
+          ? {
+              id: variables.id,
+              status: 'COMPLETED',
+              errorCode: null,
+              objectCount: String(lines.length),
+              url: lines.length ? url : null,
+            }
+          : null,
+      };
+    },
+  };
+
+  // Like Shopify, a mutation with any userError applies nothing.
+  private setQuantities(input: Variables): UserError[] {
+    const name = String(input.name);
+    const compare = input.ignoreCompareQuantity !== true;
+    const quantities = input.quantities as Array<{
+      inventoryItemId: string;
+      locationId: string;
+      quantity: number;
+      compareQuantity?: number | null;
+    }>;
+
+    const userErrors = quantities.flatMap((entry, index) => {
+      const field = ['input', 'quantities', String(index)];
+      const target = this.checkTarget(entry.inventoryItemId, entry.locationId, field, false);
+      if ('error' in target) {
+        return [target.error];
+      }
+
+      const level = this.levels.get(this.levelKey(target.variant, entry.locationId));
+      const current = level ? this.read(level, name) : null;
+      if (compare && (entry.compareQuantity ?? null) !== current) {
+        return [
+          {
+            field: [...field, 'compareQuantity'],
+            message: 'The compareQuantity argument no longer matches the persisted quantity.',
+            code: 'COMPARE_QUANTITY_STALE',
+          },
+        ];
+      }
+
+      return [];
+    });
+    if (userErrors.length) {
+      return userErrors;
+    }
+
+    quantities.forEach((entry) => {
+      const variant = this.variantByItemId(entry.inventoryItemId)!;
+      const key = this.levelKey(variant, entry.locationId);
+      const level = this.levels.get(key) ?? this.emptyLevel();
+      this.levels.set(key, level);
+      this.change(level, name, entry.quantity - this.read(level, name));
+    });
+    this.logger.debug(`Set ${name} for ${quantities.length} quantities`);
+    return [];
+  }
+
+  private adjustQuantities(input: Variables): UserError[] {
+    const name = String(input.name);
+    const changes = input.changes as Array<{
+      inventoryItemId: string;
+      locationId: string;
+      delta: number;
+      ledgerDocumentUri?: string;
+    }>;
+
+    const userErrors = changes.flatMap((entry, index): UserError[] => {
+      const field = ['input', 'changes', String(index)];
+      // Like Shopify: every quantity name but available needs a ledger document.
+      if (name !== 'available' && !entry.ledgerDocumentUri) {
+        return [
+          {
+            field: [...field, 'ledgerDocumentUri'],
+            message: 'A ledger document URI is required for this quantity name.',
+            code: 'INVALID_LEDGER_DOCUMENT',
+          },
+        ];
+      }
+
+      const target = this.checkTarget(entry.inventoryItemId, entry.locationId, field, true);
+      return 'error' in target ? [target.error] : [];
+    });
+    if (userErrors.length) {
+      return userErrors;
+    }
+
+    changes.forEach((entry) => {
+      const variant = this.variantByItemId(entry.inventoryItemId)!;
+      this.change(this.levels.get(this.levelKey(variant, entry.locationId))!, name, entry.delta);
+    });
+    this.logger.debug(`Adjusted ${name} (${String(input.reason)}) for ${changes.length} items`);
+    return [];
+  }
+
+  private checkTarget(
+    inventoryItemId: string,
+    locationId: string,
+    field: string[],
+    mustBeStocked: boolean,
+  ): { variant: FakeVariant } | { error: UserError } {
+    const variant = this.variantByItemId(inventoryItemId);
+    if (!variant) {
+      return {
+        error: {
+          field: [...field, 'inventoryItemId'],
+          message: 'The specified inventory item could not be found.',
+          code: 'INVALID_INVENTORY_ITEM',
+        },
+      };
+    }
+
+    if (!this.locations.some((location) => location.id === locationId)) {
+      return {
+        error: {
+          field: [...field, 'locationId'],
+          message: 'The specified location could not be found.',
+          code: 'INVALID_LOCATION',
+        },
+      };
+    }
+
+    if (mustBeStocked && !this.levels.has(this.levelKey(variant, locationId))) {
+      return {
+        error: {
+          field: [...field, 'locationId'],
+          message: 'The specified inventory item is not stocked at the location.',
+          code: 'ITEM_NOT_STOCKED_AT_LOCATION',
+        },
+      };
+    }
+
+    if (variant.userError || Math.random() < this.config.userErrorRate) {
+      return {
+        error: {
+          field: [...field, 'inventoryItemId'],
+          message: variant.userError ?? 'Simulated sandbox error: the quantity was not saved.',
+          code: null,
+        },
+      };
+    }
+
+    return { variant };
+  }
+
+  private read(level: SandboxQuantities, name: string): number {
+    if (name === 'on_hand') {
+      return STORED_QUANTITY_NAMES.reduce((total, state) => total + (level[state] ?? 0), 0);
+    }
+
+    return level[name] ?? 0;
+  }
+
+  // Changing on_hand moves available, which is how Shopify applies it.
+  private change(level: SandboxQuantities, name: string, delta: number): void {
+    const state = name === 'on_hand' ? 'available' : name;
+    level[state] = (level[state] ?? 0) + delta;
+  }
+
+  private findVariants(field: 'sku' | 'barcode', variables: Variables): FakeVariant[] {
+    const wanted = this.searchValue(variables, field).toLowerCase();
+    return wanted ? this.variants.filter((variant) => variant[field].toLowerCase() === wanted) : [];
+  }
+
+  // handle: is an exact match; title: needs every word of the search in the product title.
+  private findProducts(variables: Variables): FakeProduct[] {
+    const search = String(variables.search ?? '');
+    if (search.startsWith('handle:')) {
+      const handle = this.searchValue(variables, 'handle').toLowerCase();
+      return this.products.filter((product) => product.handle.toLowerCase() === handle);
+    }
+
+    const words = this.searchValue(variables, 'title').toLowerCase().split(/\s+/).filter(Boolean);
+    return this.products.filter(
+      (product) =>
+        words.length > 0 && words.every((word) => product.title.toLowerCase().includes(word)),
+    );
+  }
+
+  // "sku:ABC" or 'handle:"summer-sale"' -> the value after the field name.
+  private searchValue(variables: Variables, field: string): string {
+    const search = String(variables.search ?? '');
+    if (!search.startsWith(`${field}:`)) {
+      return '';
+    }
+
+    const value = search.slice(field.length + 1).trim();
+    if (value.startsWith('"')) {
+      try {
+        return String(JSON.parse(value));
+      } catch {
+        return value.slice(1, -1);
+      }
+    }
+
+    return value;
+  }
+
+  // Answers both connection styles (edges and nodes) and honours first/after cursors.
+  private page<T>(items: T[], variables: Variables): unknown {
+    const start = variables.after ? Number(variables.after) : 0;
+    const first = typeof variables.first === 'number' ? variables.first : 250;
+    const slice = items.slice(start, start + first);
+    const end = start + slice.length;
+
+    return {
+      edges: slice.map((node, index) => ({ cursor: String(start + index + 1), node })),
+      nodes: slice,
+      pageInfo: { hasNextPage: end < items.length, endCursor: slice.length ? String(end) : null },
+    };
+  }
+
+  // variantsPage pages the nested variants; all of them when omitted.
+  private productNode(product: FakeProduct, variantsPage?: Variables): unknown {
+    return {
+      id: product.id,
+      handle: product.handle,
+      title: product.title,
+      variants: this.page(
+        product.variants.map((variant) => this.variantNode(variant)),
+        variantsPage ?? { first: product.variants.length },
+      ),
+    };
+  }
+
+  private variantNode(variant: FakeVariant): Record<string, unknown> {
+    return {
+      sku: variant.sku,
+      title: variant.title,
+      barcode: variant.barcode || null,
+      selectedOptions: variant.options.map((value) => ({ value })),
+      inventoryItem: { id: variant.inventoryItemId },
+    };
+  }
+
+  private variantByItemId(inventoryItemId: string): FakeVariant | undefined {
+    return this.variants.find((variant) => variant.inventoryItemId === inventoryItemId);
+  }
+
+  private levelKey(variant: FakeVariant, locationId: string): string {
+    return `${variant.inventoryItemId}|${locationId}`;
+  }
+
+  private emptyLevel(): SandboxQuantities {
+    return { available: 0 };
+  }
+
+  private cost(currentlyAvailable = BUCKET_SIZE - QUERY_COST): ShopifyQueryCost {
+    return {
+      requestedQueryCost: QUERY_COST,
+      actualQueryCost: currentlyAvailable ? QUERY_COST : null,
+      throttleStatus: {
+        maximumAvailable: BUCKET_SIZE,
+        currentlyAvailable,
+        restoreRate: RESTORE_RATE,
+      },
+    };
+  }
+
+  private respond(body: unknown): Response {
+    return new Response(JSON.stringify(body), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  private gid(type: string): string {
+    const id = `gid://shopify/${type}/${this.nextId}`;
+    this.nextId += 1;
+    return id;
+  }
+
+  private load(seed: SandboxSeed): void {
+    seed.locations.forEach((location) => {
+      this.locations.push({ id: this.gid('Location'), name: location.name });
+    });
+    (seed.collections ?? []).forEach((collection) => {
+      this.collections.push({ id: this.gid('Collection'), handle: collection.handle });
+    });
+
+    seed.products.forEach((seedProduct) => {
+      const product: FakeProduct = {
+        id: this.gid('Product'),
+        handle: seedProduct.handle,
+        title: seedProduct.title,
+        vendor: seedProduct.vendor ?? '',
+        productType: seedProduct.productType ?? '',
+        tags: seedProduct.tags ?? [],
+        collectionIds: this.collections
+          .filter((collection) => seedProduct.collections?.includes(collection.handle))
+          .map((collection) => collection.id),
+        variants: [],
+      };
+      this.products.push(product);
+
+      seedProduct.variants.forEach((seedVariant) => {
+        const options = seedVariant.options ?? [];
+        const variant: FakeVariant = {
+          id: this.gid('ProductVariant'),
+          inventoryItemId: this.gid('InventoryItem'),
+          sku: seedVariant.sku ?? '',
+          barcode: seedVariant.barcode ?? '',
+          title: options.length ? options.join(' / ') : 'Default Title',
+          options,
+          product,
+          ...(seedVariant.userError ? { userError: seedVariant.userError } : {}),
+        };
+        product.variants.push(variant);
+        this.variants.push(variant);
+
+        Object.entries(seedVariant.inventory ?? {}).forEach(([locationName, quantities]) => {
+          const location = this.locations.find((candidate) => candidate.name === locationName)!;
+          this.levels.set(
+            this.levelKey(variant, location.id),
+            typeof quantities === 'number' ? { available: quantities } : { ...quantities },
+          );
+        });
+      });
+    });
+  }
+}
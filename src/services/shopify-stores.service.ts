@@ -0,0 +1,68 @@
+import { Inject, Injectable, NotFoundException } from '@nestjs/common';
+import { AppConfig, appConfig } from '../config/shopify.config';
+import { loadSandboxSeed, SandboxShopifyTransport } from './shopify-sandbox';
+import { ShopifyService } from './shopify.service';
+
+export interface ShopifyStoreSummary {
+  name: string;
+  shopName: string;
+  apiVersion: string;
+  defaultLocationName: string;
+  isDefault: boolean;
+  // Answered by the in-memory sandbox store instead of Shopify.
+  sandbox: boolean;
+}
+
+// Registry of the configured stores; hands out one long-lived client per store.
+@Injectable()
+export class ShopifyStoresService {
+  private readonly clients = new Map<string, ShopifyService>();
+  private readonly summaries: ShopifyStoreSummary[];
+  readonly defaultStoreName: string;
+  readonly sandbox: boolean;
+
+  constructor(@Inject(appConfig.KEY) config: AppConfig) {
+    const defaultStore =
+      config.stores.find((store) => this.sameName(store.name, config.defaultStore)) ??
+      config.stores[0];
+    this.defaultStoreName = defaultStore.name;
+    this.sandbox = config.sandbox.enabled;
+
+    // Each sandboxed store gets its own copy of the seed data.
+    const seed = config.sandbox.enabled ? loadSandboxSeed(config.sandbox.seedFile) : undefined;
+    config.stores.forEach((store) => {
+      const transport = seed
+        ? new SandboxShopifyTransport(store.name, seed, config.sandbox)
+        : undefined;
+      this.clients.set(store.name.toLowerCase(), new ShopifyService(store, config, transport));
+    });
+
+    this.summaries = config.stores.map((store) => ({
+      name: store.name,
+      shopName: store.shopName,
+      apiVersion: store.apiVersion,
+      defaultLocationName: store.defaultLocationName,
+      isDefault: store === defaultStore,
+      sandbox: config.sandbox.enabled,
+    }));
+  }
+
+  // Falls back to the default store when no name is given.
+  get(name?: string): ShopifyService {
+    const wanted = name?.trim() || this.defaultStoreName;
+    const client = this.clients.get(wanted.toLowerCase());
+    if (!client) {
+      throw new NotFoundException(`Store "${wanted}" is not configured`);
+    }
+
+    return client;
+  }
+
+  list(): ShopifyStoreSummary[] {
+    return this.summaries;
+  }
+
+  private sameName(a: string, b: string): boolean {
+    return a.trim().toLowerCase() === b.trim().toLowerCase();
+  }
+}
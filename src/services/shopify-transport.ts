@@ -0,0 +1,48 @@
+import { ShopifyConfig } from '../config/shopify.config';
+import { ShopifyNetworkError } from './shopify.errors';
+
+// Carries one store's GraphQL requests. ShopifyService keeps retries, rate limiting and
+// error mapping, so a transport only has to answer like the Admin API would.
+export interface ShopifyTransport {
+  // Rejects with ShopifyNetworkError when no response arrives.
+  send(query: string, variables?: Record<string, unknown>): Promise<Response>;
+  // Fetches a finished bulk operation's result file.
+  download(url: string): Promise<Response>;
+}
+
+// The real Admin API over HTTPS.
+export class HttpShopifyTransport implements ShopifyTransport {
+  private readonly graphqlUrl: string;
+  private readonly accessToken: string;
+
+  constructor(store: ShopifyConfig) {
+    const domain = store.shopName.includes('.myshopify.com')
+      ? store.shopName
+      : `${store.shopName}.myshopify.com`;
+
+    this.graphqlUrl = `https://${domain}/admin/api/${store.apiVersion}/graphql.json`;
+    this.accessToken = store.accessToken;
+  }
+
+  async send(query: string, variables?: Record<string, unknown>): Promise<Response> {
+    try {
+      return await fetch(this.graphqlUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Shopify-Access-Token': this.accessToken,
+        },
+        body: JSON.stringify({ query, variables }),
+      });
+    } catch (error: unknown) {
+      const cause = (error as { cause?: { code?: string; message?: string } }).cause;
+      throw new ShopifyNetworkError(
+        `Network error calling Shopify: ${cause?.code ?? cause?.message ?? String(error)}`,
+      );
+    }
+  }
+
+  download(url: string): Promise<Response> {
+    return fetch(url);
+  }
+}
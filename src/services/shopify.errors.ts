@@ -0,0 +1,82 @@
+export class HttpLikeError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'HttpLikeError';
+  }
+}
+
+// Top-level GraphQL errors; code comes from errors[].extensions.code (e.g. THROTTLED).
+export class ShopifyGraphqlError extends Error {
+  constructor(
+    message: string,
+    readonly codes: string[],
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ShopifyGraphqlError';
+  }
+}
+
+// fetch() rejected before any HTTP response (DNS, reset connection, timeout).
+export class ShopifyNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShopifyNetworkError';
+  }
+}
+
+// Raised while the circuit breaker is open; jobs stop instead of failing every remaining row.
+export class ShopifyUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShopifyUnavailableError';
+  }
+}
+
+// An adjustment got no usable answer (5xx, network error, timeout). Shopify may have applied
+// it, and a resent delta would count twice, so the rows fail instead of being retried.
+export class ShopifyWriteOutcomeUnknownError extends Error {
+  constructor(cause: string) {
+    super(
+      `Shopify did not confirm the adjustment (${cause}); it may or may not have been ` +
+        'applied, check live stock before uploading again',
+    );
+    this.name = 'ShopifyWriteOutcomeUnknownError';
+  }
+}
+
+export class InventoryConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InventoryConflictError';
+  }
+}
+
+// A paginated result grew past its safety cap; raised instead of returning a partial list.
+export class ShopifyResultLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShopifyResultLimitError';
+  }
+}
+
+// Several variants share the SKU or barcode a row was matched on; no write target is guessed.
+// moreMatches: the search stopped at a page limit, so matches may not list them all.
+export class AmbiguousVariantError extends Error {
+  constructor(
+    readonly identifier: 'SKU' | 'barcode',
+    readonly value: string,
+    readonly matches: string[],
+    readonly moreMatches = false,
+  ) {
+    super(
+      `Ambiguous ${identifier} "${value}": shared by ${moreMatches ? 'at least ' : ''}` +
+        `${matches.length} variants (${matches.join('; ')})`,
+    );
+    this.name = 'AmbiguousVariantError';
+  }
+}
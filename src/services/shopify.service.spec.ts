@@ -0,0 +1,138 @@
+import { AppConfig, ShopifyConfig } from '../config/shopify.config';
+import { jobLedgerDocumentUri, ShopifyService } from './shopify.service';
+import { ShopifyTransport } from './shopify-transport';
+
+const config = {
+  maxRetries: 3,
+  retryBaseDelayMs: 1,
+  retryMaxDelayMs: 2,
+  defaultQueryCost: 10,
+  catalogSnapshot: {},
+  circuitBreaker: { failureThreshold: 10, cooldownMs: 1000 },
+} as unknown as AppConfig;
+
+const json = (body: unknown): Response => new Response(JSON.stringify(body), { status: 200 });
+
+const adjusted = (): Response => json({ data: { inventoryAdjustQuantities: { userErrors: [] } } });
+
+const throttled = (): Response =>
+  json({ errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }] });
+
+const variantsPage = (count: number, hasNextPage: boolean): Response =>
+  json({
+    data: {
+      productVariants: {
+        pageInfo: { hasNextPage },
+        nodes: Array.from({ length: count }, (_, index) => ({
+          sku: 'TEE-BLK',
+          title: `Variant ${index + 1}`,
+          barcode: null,
+          selectedOptions: [],
+          inventoryItem: { id: `gid://shopify/InventoryItem/${index + 1}` },
+          product: { handle: 'classic-tee', title: 'Classic Tee' },
+        })),
+      },
+    },
+  });
+
+const adjustment = { inventoryItemId: 'gid://shopify/InventoryItem/1', locationId: 'L1', delta: 2 };
+
+describe('ShopifyService', () => {
+  let send: jest.Mock<Promise<Response>, [string, Record<string, unknown>?]>;
+  let service: ShopifyService;
+
+  beforeEach(() => {
+    send = jest.fn();
+    service = new ShopifyService(
+      { name: 'default', defaultLocationName: '' } as ShopifyConfig,
+      config,
+      { send, download: jest.fn() } as ShopifyTransport,
+    );
+  });
+
+  describe('getVariantBySku', () => {
+    it('says "at least" when the search page was full', async () => {
+      send.mockResolvedValue(variantsPage(10, true));
+
+      await expect(service.getVariantBySku('TEE-BLK')).rejects.toThrow(
+        'Ambiguous SKU "TEE-BLK": shared by at least 10 variants',
+      );
+    });
+
+    it('gives the exact count when every match was returned', async () => {
+      send.mockResolvedValue(variantsPage(3, false));
+
+      await expect(service.getVariantBySku('TEE-BLK')).rejects.toThrow(
+        'Ambiguous SKU "TEE-BLK": shared by 3 variants',
+      );
+    });
+  });
+
+  describe('adjustInventoryQuantities', () => {
+    it('does not resend an adjustment Shopify may have applied', async () => {
+      send.mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+
+      const results = await service.adjustInventoryQuantities('received', [adjustment]);
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(results).toEqual([
+        { ok: false, message: expect.stringContaining('may or may not have been applied') },
+      ]);
+    });
+
+    it('resends an adjustment Shopify refused as throttled', async () => {
+      send.mockResolvedValueOnce(throttled()).mockResolvedValueOnce(adjusted());
+
+      const results = await service.adjustInventoryQuantities('received', [adjustment]);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(results).toEqual([{ ok: true }]);
+    });
+
+    it('sends the ledger document with changes to quantities other than available', async () => {
+      send.mockResolvedValue(adjusted());
+      const ledgerDocumentUri = jobLedgerDocumentUri('job-1');
+
+      await service.adjustInventoryQuantities(
+        'damaged',
+        [adjustment, { ...adjustment, locationId: 'L2' }],
+        'damaged',
+        ledgerDocumentUri,
+      );
+
+      const [, variables] = send.mock.calls[0];
+      expect(variables).toEqual({
+        input: expect.objectContaining({
+          name: 'damaged',
+          changes: [
+            expect.objectContaining({ locationId: 'L1', ledgerDocumentUri }),
+            expect.objectContaining({ locationId: 'L2', ledgerDocumentUri }),
+          ],
+        }),
+      });
+    });
+
+    it('leaves the ledger document off available changes', async () => {
+      send.mockResolvedValue(adjusted());
+
+      await service.adjustInventoryQuantities(
+        'received',
+        [adjustment],
+        'on_hand',
+        jobLedgerDocumentUri('job-1'),
+      );
+
+      const [, variables] = send.mock.calls[0];
+      const input = (variables as { input: { name: string; changes: object[] } }).input;
+      expect(input.name).toBe('available');
+      expect(input.changes[0]).not.toHaveProperty('ledgerDocumentUri');
+    });
+
+    it('refuses to adjust other quantities without a ledger document', async () => {
+      await expect(
+        service.adjustInventoryQuantities('damaged', [adjustment], 'damaged'),
+      ).rejects.toThrow('Adjusting damaged needs a ledger document URI');
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+});
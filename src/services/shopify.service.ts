@@ -1,5 +1,26 @@
-import { BadRequestException, Injectable, Logger } from '@nestjs/common';
-import { APP_CONFIG } from '../config/shopify.config';
+import { Logger } from '@nestjs/common';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { ReadableStream as WebReadableStream } from 'stream/web';
+import { AppConfig, ShopifyConfig } from '../config/shopify.config';
+import { ShopifyQueryCost, ShopifyRateLimiter } from './shopify-rate-limiter';
+import {
+  ShopifyCircuitBreaker,
+  classifyShopifyError,
+  computeBackoffMs,
+  parseRetryAfter,
+} from './shopify-retry-policy';
+import {
+  HttpLikeError,
+  InventoryConflictError,
+  AmbiguousVariantError,
+  ShopifyGraphqlError,
+  ShopifyResultLimitError,
+  ShopifyUnavailableError,
+  ShopifyWriteOutcomeUnknownError,
+} from './shopify.errors';
+import { HttpShopifyTransport, ShopifyTransport } from './shopify-transport';
+import { pickBestTitleMatch } from './title-similarity';
 
 export interface ShopifyVariant {
   sku: string;
@@ -7,6 +28,52 @@ export interface ShopifyVariant {
   title?: string;
   barcode?: string;
   selectedOptionValues?: string[];
+  productHandle?: string;
+  productTitle?: string;
+}
+
+// Variant lookups used for row resolution: live GraphQL searches or a local catalog snapshot.
+export interface VariantLookup {
+  getVariantBySku(sku: string): Promise<ShopifyVariant | null>;
+  getVariantByBarcode(barcode: string): Promise<ShopifyVariant | null>;
+  getVariantsByHandle(handle: string): Promise<ShopifyVariant[]>;
+  getVariantsByTitle(title: string): Promise<ShopifyVariant[]>;
+}
+
+// The only variant matched by a SKU or barcode, or null; several matches throw
+// AmbiguousVariantError listing them.
+export function singleVariantMatch(
+  identifier: 'SKU' | 'barcode',
+  value: string,
+  matches: ShopifyVariant[],
+  moreMatches = false,
+): ShopifyVariant | null {
+  if (matches.length > 1) {
+    throw new AmbiguousVariantError(
+      identifier,
+      value,
+      matches.map(describeVariant),
+      moreMatches,
+    );
+  }
+
+  return matches[0] ?? null;
+}
+
+// "Classic Tee / Black / S (classic-tee)" for reasons and reports.
+export function describeVariant(variant: ShopifyVariant): string {
+  const name = [variant.productTitle, variant.title]
+    .filter((part) => part && part !== 'Default Title')
+    .join(' / ');
+  const label = name || variant.sku || variant.inventoryItemId;
+  return variant.productHandle ? `${label} (${variant.productHandle})` : label;
+}
+
+// Product fields of an inventory item's variant, for allocation rules.
+export interface ShopifyItemProduct {
+  vendor: string;
+  productType: string;
+  tags: string[];
 }
 
 export interface ShopifyLocation {
@@ -14,61 +81,230 @@ export interface ShopifyLocation {
   name: string;
 }
 
+// One tracked variant's stock at a location, as read for the inventory export.
+export interface ShopifyInventoryLevel {
+  inventoryItemId: string;
+  sku: string;
+  barcode: string;
+  optionValues: string[];
+  productId: string;
+  productHandle: string;
+  productTitle: string;
+  vendor: string;
+  productType: string;
+  available: number | null;
+}
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<T> {
+  pageInfo: PageInfo;
+  nodes: T[];
+}
+
+interface VariantNode {
+  sku: string;
+  title: string;
+  barcode: string | null;
+  selectedOptions: Array<{ value: string }>;
+  inventoryItem: { id: string } | null;
+}
+
+// Selection matching VariantNode, shared by the product variant queries.
+const VARIANT_NODE_FIELDS = `
+  sku
+  title
+  barcode
+  selectedOptions {
+    value
+  }
+  inventoryItem {
+    id
+  }
+`;
+
 interface GraphqlResponse<T> {
   data?: T;
-  errors?: Array<{ message: string }>;
+  errors?: Array<{ message: string; extensions?: { code?: string } }>;
+  extensions?: { cost?: ShopifyQueryCost };
+}
+
+export interface InventoryQuantityWrite {
+  inventoryItemId: string;
+  locationId: string;
+  quantity: number;
+  // null expects no inventory level at the location yet.
+  compareQuantity?: number | null;
+}
+
+// Shopify quantity names (inventory states) an upload can target.
+export const INVENTORY_QUANTITY_NAMES = [
+  'available',
+  'on_hand',
+  'damaged',
+  'quality_control',
+  'safety_stock',
+  'reserved',
+] as const;
+
+export type InventoryQuantityName = (typeof INVENTORY_QUANTITY_NAMES)[number];
+
+// inventorySetQuantities only accepts these; other states are changed through adjustments.
+export type SettableQuantityName = Extract<InventoryQuantityName, 'available' | 'on_hand'>;
+
+export function isSettableQuantityName(
+  name: InventoryQuantityName,
+): name is SettableQuantityName {
+  return name === 'available' || name === 'on_hand';
+}
+
+// Reason codes accepted by inventoryAdjustQuantities for manual adjustments.
+export const INVENTORY_ADJUST_REASONS = [
+  'correction',
+  'cycle_count_available',
+  'damaged',
+  'movement_received',
+  'other',
+  'promotion',
+  'quality_control',
+  'received',
+  'restock',
+  'safety_stock',
+  'shrinkage',
+] as const;
+
+export type InventoryAdjustReason = (typeof INVENTORY_ADJUST_REASONS)[number];
+
+// Shopify requires a ledger document on adjustments to every quantity name but available;
+// the job that made the change is the document here.
+export function jobLedgerDocumentUri(jobId: string): string {
+  return `inventory-updater://jobs/${jobId}`;
+}
+
+export interface InventoryQuantityAdjustment {
+  inventoryItemId: string;
+  locationId: string;
+  delta: number;
+}
+
+export type InventoryWriteResult =
+  | { ok: true }
+  | { ok: false; message: string; code?: string };
+
+interface InventorySetUserError {
+  field: string[] | null;
+  message: string;
+  code: string | null;
+}
+
+interface InventoryAdjustQuantitiesPayload {
+  inventoryAdjustQuantities: {
+    userErrors: InventorySetUserError[];
+  };
 }
 
 interface InventorySetQuantitiesPayload {
   inventorySetQuantities: {
-    userErrors: Array<{ message: string }>;
+    userErrors: InventorySetUserError[];
   };
 }
 
-@Injectable()
-export class ShopifyService {
-  private readonly logger = new Logger(ShopifyService.name);
+// Kept well under Shopify's 1000-point single query cost limit.
+const INVENTORY_LEVELS_PAGE_SIZE = 100;
+const COLLECTION_PRODUCTS_PAGE_SIZE = 250;
+// Shopify's limit for ids in one nodes() query.
+const NODES_PER_QUERY = 250;
+const LOCATIONS_PAGE_SIZE = 250;
+const VARIANTS_PAGE_SIZE = 250;
+const TITLE_SEARCH_PAGE_SIZE = 50;
+
+// Safety caps for paginated reads. Hitting one fails the lookup with ShopifyResultLimitError
+// rather than quietly working from a partial list.
+const MAX_LOCATIONS = 1000;
+const MAX_PRODUCT_VARIANTS = 2048;
+// A title matching this many products is too vague to pick one from.
+const MAX_TITLE_MATCHES = 250;
+const MAX_LOCATION_INVENTORY_LEVELS = 200000;
+// Variants fetched per SKU or barcode lookup; two are enough to detect a duplicate, the
+// rest are listed in the ambiguity reason.
+const MAX_IDENTIFIER_MATCHES = 10;
+const MAX_COLLECTION_PRODUCTS = 100000;
+
+interface BulkOperation {
+  id: string;
+  status: string;
+  errorCode: string | null;
+  objectCount: string;
+  url: string | null;
+}
+
+// GraphQL client for one store. Instances are created per configured store by
+// ShopifyStoresService, so each store keeps its own rate-limit bucket and circuit breaker.
+// Requests go through the transport: the Admin API, or the fake store in sandbox mode.
+export class ShopifyService implements VariantLookup {
+  readonly storeName: string;
+  readonly defaultLocationName: string;
+  private readonly logger: Logger;
   private readonly maxRetries: number;
   private readonly retryBaseDelayMs: number;
-  private readonly shopName: string;
-  private readonly accessToken: string;
-  private readonly apiVersion: string;
-
-  constructor() {
-    this.maxRetries = APP_CONFIG.maxRetries;
-    this.retryBaseDelayMs = APP_CONFIG.retryBaseDelayMs;
-    this.shopName = APP_CONFIG.shopify.shopName;
-    this.accessToken = APP_CONFIG.shopify.accessToken;
-    this.apiVersion = APP_CONFIG.shopify.apiVersion;
-
-    if (!this.shopName || !this.accessToken) {
-      throw new BadRequestException(
-        'Missing hardcoded Shopify config values (shopName/accessToken)',
-      );
-    }
+  private readonly bulkPollIntervalMs: number;
+  private readonly bulkTimeoutMs: number;
+  private readonly retryMaxDelayMs: number;
+  private readonly rateLimiter: ShopifyRateLimiter;
+  private readonly circuitBreaker: ShopifyCircuitBreaker;
+
+  constructor(
+    store: ShopifyConfig,
+    config: AppConfig,
+    private readonly transport: ShopifyTransport = new HttpShopifyTransport(store),
+  ) {
+    this.storeName = store.name;
+    this.defaultLocationName = store.defaultLocationName;
+    this.logger = new Logger(`${ShopifyService.name}:${store.name}`);
+    this.maxRetries = config.maxRetries;
+    this.retryBaseDelayMs = config.retryBaseDelayMs;
+    this.bulkPollIntervalMs = config.catalogSnapshot.pollIntervalMs;
+    this.bulkTimeoutMs = config.catalogSnapshot.timeoutMs;
+    this.retryMaxDelayMs = config.retryMaxDelayMs;
+    this.rateLimiter = new ShopifyRateLimiter(config.defaultQueryCost);
+    this.circuitBreaker = new ShopifyCircuitBreaker(
+      config.circuitBreaker.failureThreshold,
+      config.circuitBreaker.cooldownMs,
+    );
   }
 
   async getLocations(): Promise<ShopifyLocation[]> {
     const query = `
-      query GetLocations {
-        locations(first: 250) {
-          edges {
-            node {
-              id
-              name
-            }
+      query GetLocations($first: Int!, $after: String) {
+        locations(first: $first, after: $after) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            id
+            name
           }
         }
       }
     `;
 
-    const payload = await this.withRetry('locations query', async () =>
-      this.graphql<{
-        locations: { edges: Array<{ node: ShopifyLocation }> };
-      }>(query),
+    const locations = await this.collectPages<ShopifyLocation>(
+      'locations query',
+      MAX_LOCATIONS,
+      async (after) => {
+        const payload = await this.graphql<{ locations: Connection<ShopifyLocation> }>(query, {
+          first: LOCATIONS_PAGE_SIZE,
+          after,
+        });
+        return payload.locations;
+      },
     );
 
-    return payload.locations.edges.map((edge) => edge.node);
+    return locations ?? [];
   }
 
   async getLocationsMap(): Promise<Map<string, string>> {
@@ -81,118 +317,85 @@ export class ShopifyService {
     return map;
   }
 
+  // Throws AmbiguousVariantError when several variants carry the SKU.
   async getVariantBySku(sku: string): Promise<ShopifyVariant | null> {
-    const query = `
-      query VariantBySku($search: String!) {
-        productVariants(first: 1, query: $search) {
-          edges {
-            node {
-              sku
-              inventoryItem {
-                id
-              }
-            }
-          }
-        }
-      }
-    `;
-
-    const payload = await this.withRetry(`variant query sku=${sku}`, async () =>
-      this.graphql<{
-        productVariants: {
-          edges: Array<{ node: { sku: string; inventoryItem: { id: string } | null } }>;
-        };
-      }>(query, { search: `sku:${sku}` }),
-    );
-
-    const node = payload.productVariants.edges[0]?.node;
-    if (!node?.inventoryItem?.id) {
-      return null;
-    }
-
-    return {
-      sku: node.sku,
-      inventoryItemId: node.inventoryItem.id,
-      barcode: undefined,
-      title: undefined,
-      selectedOptionValues: [],
-    };
+    const { matches, moreMatches } = await this.findVariantsBy('sku', sku);
+    return singleVariantMatch('SKU', sku, matches, moreMatches);
   }
 
+  // Throws AmbiguousVariantError when several variants carry the barcode.
   async getVariantByBarcode(barcode: string): Promise<ShopifyVariant | null> {
+    const { matches, moreMatches } = await this.findVariantsBy('barcode', barcode);
+    return singleVariantMatch('barcode', barcode, matches, moreMatches);
+  }
+
+  // Variants whose SKU or barcode equals value. Shopify's search can also return near
+  // matches; those only count when nothing matches exactly, as the first result.
+  private async findVariantsBy(
+    field: 'sku' | 'barcode',
+    value: string,
+  ): Promise<{ matches: ShopifyVariant[]; moreMatches: boolean }> {
+    const operation = field === 'sku' ? 'VariantBySku' : 'VariantByBarcode';
     const query = `
-      query VariantByBarcode($search: String!) {
-        productVariants(first: 1, query: $search) {
-          edges {
-            node {
-              sku
+      query ${operation}($search: String!, $first: Int!) {
+        productVariants(first: $first, query: $search) {
+          pageInfo {
+            hasNextPage
+          }
+          nodes {${VARIANT_NODE_FIELDS}
+            product {
+              handle
               title
-              barcode
-              selectedOptions {
-                value
-              }
-              inventoryItem {
-                id
-              }
             }
           }
         }
       }
     `;
 
-    const payload = await this.withRetry(`variant query barcode=${barcode}`, async () =>
+    const payload = await this.withRetry(`variant query ${field}=${value}`, async () =>
       this.graphql<{
         productVariants: {
-          edges: Array<
-            {
-              node: {
-                sku: string;
-                title: string;
-                barcode: string | null;
-                selectedOptions: Array<{ value: string }>;
-                inventoryItem: { id: string } | null;
-              };
-            }
-          >;
+          pageInfo: { hasNextPage: boolean };
+          nodes: Array<VariantNode & { product: { handle: string; title: string } }>;
         };
-      }>(query, { search: `barcode:${barcode}` }),
+      }>(query, { search: `${field}:${value}`, first: MAX_IDENTIFIER_MATCHES }),
     );
 
-    const node = payload.productVariants.edges[0]?.node;
-    if (!node?.inventoryItem?.id) {
-      return null;
-    }
+    const variants = payload.productVariants.nodes
+      .filter((node) => Boolean(node.inventoryItem?.id))
+      .map((node) => ({
+        sku: node.sku || '',
+        inventoryItemId: node.inventoryItem!.id,
+        barcode: node.barcode || undefined,
+        title: node.title || undefined,
+        selectedOptionValues: node.selectedOptions.map((option) => option.value),
+        productHandle: node.product.handle,
+        productTitle: node.product.title,
+      }));
+    const wanted = value.trim().toLowerCase();
+    const exact = variants.filter(
+      (variant) => (variant[field] ?? '').trim().toLowerCase() === wanted,
+    );
 
+    // Only enough matches to show an ambiguity are fetched; a full page means there may be more.
     return {
-      sku: node.sku || '',
-      inventoryItemId: node.inventoryItem.id,
-      barcode: node.barcode || undefined,
-      title: node.title || undefined,
-      selectedOptionValues: node.selectedOptions.map((option) => option.value),
+      matches: exact.length ? exact : variants.slice(0, 1),
+      moreMatches: payload.productVariants.pageInfo.hasNextPage,
     };
   }
 
   async getVariantsByHandle(handle: string): Promise<ShopifyVariant[]> {
     const query = `
-      query VariantsByHandle($search: String!) {
+      query VariantsByHandle($search: String!, $first: Int!) {
         products(first: 1, query: $search) {
-          edges {
-            node {
-              variants(first: 100) {
-                edges {
-                  node {
-                    sku
-                    title
-                    barcode
-                    selectedOptions {
-                      value
-                    }
-                    inventoryItem {
-                      id
-                    }
-                  }
-                }
+          nodes {
+            id
+            variants(first: $first) {
+              pageInfo {
+                hasNextPage
+                endCursor
               }
+              nodes {${VARIANT_NODE_FIELDS}}
             }
           }
         }
@@ -201,129 +404,90 @@ export class ShopifyService {
 
     const payload = await this.withRetry(`product query handle=${handle}`, async () =>
       this.graphql<{
-        products: {
-          edges: Array<
-            {
-              node: {
-                variants: {
-                  edges: Array<
-                    {
-                      node: {
-                        sku: string;
-                        title: string;
-                        barcode: string | null;
-                        selectedOptions: Array<{ value: string }>;
-                        inventoryItem: { id: string } | null;
-                      };
-                    }
-                  >;
-                };
-              };
-            }
-          >;
-        };
-      }>(query, { search: `handle:${handle}` }),
+        products: { nodes: Array<{ id: string; variants: Connection<VariantNode> }> };
+      }>(query, { search: `handle:${handle}`, first: VARIANTS_PAGE_SIZE }),
     );
 
-    const product = payload.products.edges[0]?.node;
+    const product = payload.products.nodes[0];
     if (!product) {
       return [];
     }
 
-    return product.variants.edges
-      .map((edge) => edge.node)
-      .filter((variant) => Boolean(variant.inventoryItem?.id))
-      .map((variant) => ({
-        sku: variant.sku || '',
-        inventoryItemId: variant.inventoryItem!.id,
-        barcode: variant.barcode || undefined,
-        title: variant.title || undefined,
-        selectedOptionValues: variant.selectedOptions.map((option) => option.value),
-      }));
+    return this.getProductVariants(product.id, product.variants);
   }
 
+  // Searches products by title (every matching page), then loads all variants of the
+  // closest match.
   async getVariantsByTitle(title: string): Promise<ShopifyVariant[]> {
     const query = `
-      query VariantsByTitle($search: String!) {
-        products(first: 10, query: $search) {
-          edges {
-            node {
-              title
-              variants(first: 100) {
-                edges {
-                  node {
-                    sku
-                    title
-                    barcode
-                    selectedOptions {
-                      value
-                    }
-                    inventoryItem {
-                      id
-                    }
-                  }
-                }
-              }
-            }
+      query ProductsByTitle($search: String!, $first: Int!, $after: String) {
+        products(first: $first, after: $after, query: $search) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            id
+            title
           }
         }
       }
     `;
 
-    const payload = await this.withRetry(`product query title=${title}`, async () =>
-      this.graphql<{
-        products: {
-          edges: Array<
-            {
-              node: {
-                title: string;
-                variants: {
-                  edges: Array<
-                    {
-                      node: {
-                        sku: string;
-                        title: string;
-                        barcode: string | null;
-                        selectedOptions: Array<{ value: string }>;
-                        inventoryItem: { id: string } | null;
-                      };
-                    }
-                  >;
-                };
-              };
-            }
-          >;
-        };
-      }>(query, { search: `title:${title}` }),
+    const products = await this.collectPages<{ id: string; title: string }>(
+      `product query title=${title}`,
+      MAX_TITLE_MATCHES,
+      async (after) => {
+        const payload = await this.graphql<{
+          products: Connection<{ id: string; title: string }>;
+        }>(query, { search: `title:${title}`, first: TITLE_SEARCH_PAGE_SIZE, after });
+        return payload.products;
+      },
     );
 
-    const rankedProducts = payload.products.edges
-      .map((edge) => ({
-        product: edge.node,
-        score: this.computeTitleSimilarity(title, edge.node.title),
-      }))
-      .sort((a, b) => b.score - a.score);
-
-    if (!rankedProducts.length) {
+    const best = pickBestTitleMatch(title, products ?? [], (product) => product.title);
+    if (!best) {
       return [];
     }
 
-    const best = rankedProducts[0];
-    const secondBest = rankedProducts[1];
-    const minimumConfidence = 0.58;
-    const minimumGap = 0.08;
+    return this.getProductVariants(best.id);
+  }
 
-    if (best.score < minimumConfidence) {
-      return [];
-    }
+  // Every variant of a product; firstPage saves a request when a search already returned it.
+  private async getProductVariants(
+    productId: string,
+    firstPage?: Connection<VariantNode>,
+  ): Promise<ShopifyVariant[]> {
+    const query = `
+      query ProductVariants($id: ID!, $first: Int!, $after: String) {
+        product(id: $id) {
+          variants(first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {${VARIANT_NODE_FIELDS}}
+          }
+        }
+      }
+    `;
 
-    if (secondBest && best.score - secondBest.score < minimumGap) {
-      // Ambiguous fuzzy match between product titles: require stronger identifier.
-      return [];
-    }
+    const variants = await this.collectPages<VariantNode>(
+      `product variants query id=${productId}`,
+      MAX_PRODUCT_VARIANTS,
+      async (after) => {
+        if (!after && firstPage) {
+          return firstPage;
+        }
+
+        const payload = await this.graphql<{
+          product: { variants: Connection<VariantNode> } | null;
+        }>(query, { id: productId, first: VARIANTS_PAGE_SIZE, after });
+        return payload.product?.variants ?? null;
+      },
+    );
 
-    return best.product.variants.edges
-      .map((variantEdge) => variantEdge.node)
+    return (variants ?? [])
       .filter((variant) => Boolean(variant.inventoryItem?.id))
       .map((variant) => ({
         sku: variant.sku || '',
@@ -334,70 +498,16 @@ export class ShopifyService {
       }));
   }
 
-  private computeTitleSimilarity(inputTitle: string, shopifyTitle: string): number {
-    const left = this.normalizeTitle(inputTitle);
-    const right = this.normalizeTitle(shopifyTitle);
-
-    if (!left || !right) {
-      return 0;
-    }
-
-    if (left === right) {
-      return 1;
-    }
-
-    let score = this.jaccardTokenSimilarity(left, right);
-
-    if (left.includes(right) || right.includes(left)) {
-      score += 0.22;
-    }
-
-    // Lightweight prefix hint for names that start similarly.
-    const leftPrefix = left.slice(0, Math.min(10, left.length));
-    const rightPrefix = right.slice(0, Math.min(10, right.length));
-    if (leftPrefix === rightPrefix) {
-      score += 0.08;
-    }
-
-    return Math.min(1, score);
-  }
-
-  private jaccardTokenSimilarity(a: string, b: string): number {
-    const aTokens = new Set(a.split(' ').filter((token) => token));
-    const bTokens = new Set(b.split(' ').filter((token) => token));
-
-    if (!aTokens.size || !bTokens.size) {
-      return 0;
-    }
-
-    let intersection = 0;
-    for (const token of aTokens) {
-      if (bTokens.has(token)) {
-        intersection += 1;
-      }
-    }
-
-    const union = aTokens.size + bTokens.size - intersection;
-    return union === 0 ? 0 : intersection / union;
-  }
-
-  private normalizeTitle(title: string): string {
-    return title
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
-  }
-
   async getCurrentInventory(
     inventoryItemId: string,
     locationId: string,
+    name: InventoryQuantityName = 'available',
   ): Promise<number | null> {
     const query = `
-      query CurrentInventory($inventoryItemId: ID!, $locationId: ID!) {
+      query CurrentInventory($inventoryItemId: ID!, $locationId: ID!, $names: [String!]!) {
         inventoryItem(id: $inventoryItemId) {
           inventoryLevel(locationId: $locationId) {
-            quantities(names: ["available"]) {
+            quantities(names: $names) {
               name
               quantity
             }
@@ -407,119 +517,630 @@ export class ShopifyService {
     `;
 
     const payload = await this.withRetry(
-      `inventory level query item=${inventoryItemId} location=${locationId}`,
+      `inventory level query item=${inventoryItemId} location=${locationId} name=${name}`,
       async () =>
         this.graphql<{
           inventoryItem: {
             inventoryLevel: { quantities: Array<{ name: string; quantity: number }> } | null;
           } | null;
-        }>(query, { inventoryItemId, locationId }),
+        }>(query, { inventoryItemId, locationId, names: [name] }),
     );
 
     const quantity = payload.inventoryItem?.inventoryLevel?.quantities[0]?.quantity;
     return typeof quantity === 'number' ? quantity : null;
   }
 
+  // When compareQuantity is given, Shopify only writes if the live quantity still equals it.
   async setInventory(
     inventoryItemId: string,
     locationId: string,
-    available: number,
+    quantity: number,
+    compareQuantity?: number | null,
+    name: SettableQuantityName = 'available',
   ): Promise<void> {
+    const [result] = await this.setInventoryQuantities(
+      [{ inventoryItemId, locationId, quantity, compareQuantity }],
+      name,
+    );
+
+    if (!result.ok && result.code === 'COMPARE_QUANTITY_STALE') {
+      throw new InventoryConflictError(result.message);
+    }
+
+    if (!result.ok) {
+      throw new Error(result.message);
+    }
+  }
+
+  // Writes many quantities per mutation and returns one result per input, in order.
+  // userErrors are mapped back through their field path (input.quantities.<index>.*).
+  async setInventoryQuantities(
+    writes: InventoryQuantityWrite[],
+    name: SettableQuantityName = 'available',
+  ): Promise<InventoryWriteResult[]> {
+    return this.writeWithUserErrors(writes, 'quantities', (batch) =>
+      this.sendInventorySetQuantities(batch, name),
+    );
+  }
+
+  // Applies relative changes (input.changes.<index>.*); one reason and quantity name
+  // cover the whole mutation. ledgerDocumentUri is required unless available is adjusted.
+  async adjustInventoryQuantities(
+    reason: InventoryAdjustReason,
+    adjustments: InventoryQuantityAdjustment[],
+    name: InventoryQuantityName = 'available',
+    ledgerDocumentUri?: string,
+  ): Promise<InventoryWriteResult[]> {
+    // on_hand cannot be adjusted directly; changing available moves on_hand by the same delta.
+    const adjustedName = name === 'on_hand' ? 'available' : name;
+    if (adjustedName !== 'available' && !ledgerDocumentUri) {
+      throw new Error(`Adjusting ${adjustedName} needs a ledger document URI`);
+    }
+
+    return this.writeWithUserErrors(adjustments, 'changes', (batch) =>
+      this.sendInventoryAdjustQuantities(reason, adjustedName, batch, ledgerDocumentUri),
+    );
+  }
+
+  // A mutation that returns userErrors applies nothing, so entries without their own
+  // error are sent again without the rejected ones.
+  private async writeWithUserErrors<T>(
+    entries: T[],
+    listField: string,
+    send: (batch: T[]) => Promise<InventorySetUserError[]>,
+  ): Promise<InventoryWriteResult[]> {
+    const results: Array<InventoryWriteResult | undefined> = entries.map(() => undefined);
+    let remaining = entries.map((entry, index) => ({ entry, index }));
+
+    while (remaining.length) {
+      let userErrors: InventorySetUserError[];
+      try {
+        userErrors = await send(remaining.map((item) => item.entry));
+      } catch (error: unknown) {
+        if (!(error instanceof ShopifyWriteOutcomeUnknownError)) {
+          throw error;
+        }
+
+        // Rows rejected by an earlier attempt keep their own error.
+        remaining.forEach((item) => {
+          results[item.index] = { ok: false, message: error.message };
+        });
+        break;
+      }
+
+      if (!userErrors.length) {
+        remaining.forEach((item) => {
+          results[item.index] = { ok: true };
+        });
+        break;
+      }
+
+      const rejectedPositions = new Set<number>();
+      const unattributed: InventorySetUserError[] = [];
+
+      userErrors.forEach((userError) => {
+        const position = this.extractListIndex(userError.field, listField);
+        if (position == null || position >= remaining.length) {
+          unattributed.push(userError);
+          return;
+        }
+
+        rejectedPositions.add(position);
+        results[remaining[position].index] = {
+          ok: false,
+          message: userError.message,
+          code: userError.code ?? undefined,
+        };
+      });
+
+      if (unattributed.length) {
+        const message = unattributed.map((userError) => userError.message).join('; ');
+        remaining.forEach((item, position) => {
+          if (!rejectedPositions.has(position)) {
+            results[item.index] = {
+              ok: false,
+              message,
+              code: unattributed[0].code ?? undefined,
+            };
+          }
+        });
+        break;
+      }
+
+      remaining = remaining.filter((_, position) => !rejectedPositions.has(position));
+    }
+
+    return results as InventoryWriteResult[];
+  }
+
+  private async sendInventorySetQuantities(
+    writes: InventoryQuantityWrite[],
+    name: SettableQuantityName,
+  ): Promise<InventorySetUserError[]> {
     const mutation = `
       mutation SetInventory($input: InventorySetQuantitiesInput!) {
         inventorySetQuantities(input: $input) {
           userErrors {
+            field
             message
+            code
           }
         }
       }
     `;
+    // ignoreCompareQuantity applies to the whole mutation, so compare mode is all-or-nothing.
+    const compare = writes.some((write) => write.compareQuantity !== undefined);
+    if (compare && writes.some((write) => write.compareQuantity === undefined)) {
+      throw new Error('compareQuantity must be given for every quantity or for none');
+    }
 
     const payload = await this.withRetry(
-      `inventory set mutation item=${inventoryItemId} location=${locationId}`,
+      `inventory set mutation items=${writes.length} name=${name}`,
       async () =>
         this.graphql<InventorySetQuantitiesPayload>(mutation, {
           input: {
-            name: 'available',
+            name,
             reason: 'correction',
-            ignoreCompareQuantity: true,
-            quantities: [
-              {
-                inventoryItemId,
-                locationId,
-                quantity: available,
-              },
-            ],
+            ignoreCompareQuantity: !compare,
+            quantities: writes.map((write) => ({
+              inventoryItemId: write.inventoryItemId,
+              locationId: write.locationId,
+              quantity: write.quantity,
+              ...(compare ? { compareQuantity: write.compareQuantity } : {}),
+            })),
           },
         }),
     );
 
-    const userError = payload.inventorySetQuantities.userErrors[0];
-    if (userError) {
-      throw new Error(userError.message);
+    return payload.inventorySetQuantities.userErrors;
+  }
+
+  private async sendInventoryAdjustQuantities(
+    reason: InventoryAdjustReason,
+    name: InventoryQuantityName,
+    adjustments: InventoryQuantityAdjustment[],
+    ledgerDocumentUri?: string,
+  ): Promise<InventorySetUserError[]> {
+    const mutation = `
+      mutation AdjustInventory($input: InventoryAdjustQuantitiesInput!) {
+        inventoryAdjustQuantities(input: $input) {
+          userErrors {
+            field
+            message
+            code
+          }
+        }
+      }
+    `;
+
+    // A delta is not idempotent: only throttled requests, which Shopify refused, are resent.
+    const payload = await this.withRetry(
+      `inventory adjust mutation items=${adjustments.length} name=${name} reason=${reason}`,
+      async () =>
+        this.graphql<InventoryAdjustQuantitiesPayload>(mutation, {
+          input: {
+            name,
+            reason,
+            changes: adjustments.map((adjustment) => ({
+              inventoryItemId: adjustment.inventoryItemId,
+              locationId: adjustment.locationId,
+              delta: adjustment.delta,
+              // Required by Shopify for every name but available; left off available changes.
+              ...(name === 'available' ? {} : { ledgerDocumentUri }),
+            })),
+          },
+        }),
+      { retryUnavailable: false },
+    );
+
+    return payload.inventoryAdjustQuantities.userErrors;
+  }
+
+  private extractListIndex(field: string[] | null, listField: string): number | null {
+    if (!field) {
+      return null;
     }
+
+    const listAt = field.indexOf(listField);
+    const index = Number(field[listAt + 1]);
+    return listAt >= 0 && Number.isInteger(index) ? index : null;
   }
 
   async getInventoryItemLocationIds(inventoryItemId: string): Promise<string[]> {
     const query = `
-      query ItemLocations($inventoryItemId: ID!) {
+      query ItemLocations($inventoryItemId: ID!, $first: Int!, $after: String) {
         inventoryItem(id: $inventoryItemId) {
-          inventoryLevels(first: 250) {
-            edges {
-              node {
-                location {
-                  id
-                }
+          inventoryLevels(first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              location {
+                id
               }
             }
           }
         }
       }
     `;
+    type LevelNode = { location: { id: string } | null };
 
-    const payload = await this.withRetry(
+    const levels = await this.collectPages<LevelNode>(
       `inventory locations query item=${inventoryItemId}`,
-      async () =>
-        this.graphql<{
-          inventoryItem: {
-            inventoryLevels: { edges: Array<{ node: { location: { id: string } | null } }> };
-          } | null;
-        }>(query, { inventoryItemId }),
+      MAX_LOCATIONS,
+      async (after) => {
+        const payload = await this.graphql<{
+          inventoryItem: { inventoryLevels: Connection<LevelNode> } | null;
+        }>(query, { inventoryItemId, first: LOCATIONS_PAGE_SIZE, after });
+        return payload.inventoryItem?.inventoryLevels ?? null;
+      },
     );
 
-    if (!payload.inventoryItem) {
-      return [];
+    return (levels ?? []).map((level) => level.location?.id || '').filter((id) => id !== '');
+  }
+
+  // Keyed by inventory item ID; items without a variant are left out.
+  async getInventoryItemProducts(
+    inventoryItemIds: string[],
+  ): Promise<Map<string, ShopifyItemProduct>> {
+    const query = `
+      query InventoryItemProducts($ids: [ID!]!) {
+        nodes(ids: $ids) {
+          ... on InventoryItem {
+            id
+            variant {
+              product {
+                vendor
+                productType
+                tags
+              }
+            }
+          }
+        }
+      }
+    `;
+
+    const products = new Map<string, ShopifyItemProduct>();
+    const uniqueIds = [...new Set(inventoryItemIds)];
+    for (let start = 0; start < uniqueIds.length; start += NODES_PER_QUERY) {
+      const ids = uniqueIds.slice(start, start + NODES_PER_QUERY);
+      const payload = await this.withRetry(`item products query (${ids.length} items)`, async () =>
+        this.graphql<{
+          nodes: Array<{ id?: string; variant?: { product: ShopifyItemProduct } | null } | null>;
+        }>(query, { ids }),
+      );
+
+      payload.nodes.forEach((node) => {
+        if (node?.id && node.variant) {
+          products.set(node.id, node.variant.product);
+        }
+      });
     }
 
-    return payload.inventoryItem.inventoryLevels.edges
-      .map((edge) => edge.node.location?.id || '')
-      .filter((id) => id !== '');
+    return products;
   }
 
-  private async graphql<T>(
-    query: string,
-    variables?: Record<string, unknown>,
-  ): Promise<T> {
-    const response = await fetch(this.getGraphqlUrl(), {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Shopify-Access-Token': this.accessToken,
+  // Every tracked variant stocked at the location, following the cursor to the last page.
+  async getLocationInventoryLevels(locationId: string): Promise<ShopifyInventoryLevel[]> {
+    const query = `
+      query LocationInventoryLevels($locationId: ID!, $first: Int!, $after: String) {
+        location(id: $locationId) {
+          inventoryLevels(first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              quantities(names: ["available"]) {
+                name
+                quantity
+              }
+              item {
+                id
+                tracked
+                variant {
+                  sku
+                  barcode
+                  selectedOptions {
+                    value
+                  }
+                  product {
+                    id
+                    handle
+                    title
+                    vendor
+                    productType
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    `;
+    type LevelNode = {
+      quantities: Array<{ name: string; quantity: number }>;
+      item: {
+        id: string;
+        tracked: boolean;
+        variant: {
+          sku: string | null;
+          barcode: string | null;
+          selectedOptions: Array<{ value: string }>;
+          product: {
+            id: string;
+            handle: string;
+            title: string;
+            vendor: string;
+            productType: string;
+          };
+        } | null;
+      } | null;
+    };
+
+    const nodes = await this.collectPages<LevelNode>(
+      `inventory levels query location=${locationId}`,
+      MAX_LOCATION_INVENTORY_LEVELS,
+      async (after) => {
+        const payload = await this.graphql<{
+          location: { inventoryLevels: Connection<LevelNode> } | null;
+        }>(query, { locationId, first: INVENTORY_LEVELS_PAGE_SIZE, after });
+        return payload.location?.inventoryLevels ?? null;
       },
-      body: JSON.stringify({ query, variables }),
+    );
+
+    const levels: ShopifyInventoryLevel[] = [];
+    (nodes ?? []).forEach((node) => {
+      const variant = node.item?.variant;
+      if (!node.item?.tracked || !variant) {
+        return;
+      }
+
+      const quantity = node.quantities[0]?.quantity;
+      levels.push({
+        inventoryItemId: node.item.id,
+        sku: variant.sku ?? '',
+        barcode: variant.barcode ?? '',
+        optionValues: variant.selectedOptions.map((option) => option.value),
+        productId: variant.product.id,
+        productHandle: variant.product.handle,
+        productTitle: variant.product.title,
+        vendor: variant.product.vendor,
+        productType: variant.product.productType,
+        available: typeof quantity === 'number' ? quantity : null,
+      });
     });
 
-    if (!response.ok) {
-      const message = await response.text();
+    return levels;
+  }
+
+  // Product IDs in a collection given by ID or handle; null when no such collection exists.
+  async getCollectionProductIds(collection: string): Promise<Set<string> | null> {
+    const collectionId = await this.resolveCollectionId(collection);
+    if (!collectionId) {
+      return null;
+    }
+
+    const query = `
+      query CollectionProducts($id: ID!, $first: Int!, $after: String) {
+        collection(id: $id) {
+          products(first: $first, after: $after) {
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+            nodes {
+              id
+            }
+          }
+        }
+      }
+    `;
+
+    const products = await this.collectPages<{ id: string }>(
+      `collection products query id=${collectionId}`,
+      MAX_COLLECTION_PRODUCTS,
+      async (after) => {
+        const payload = await this.graphql<{
+          collection: { products: Connection<{ id: string }> } | null;
+        }>(query, { id: collectionId, first: COLLECTION_PRODUCTS_PAGE_SIZE, after });
+        return payload.collection?.products ?? null;
+      },
+    );
+
+    return products ? new Set(products.map((product) => product.id)) : null;
+  }
+
+  private async resolveCollectionId(collection: string): Promise<string | null> {
+    const wanted = collection.trim();
+    if (wanted.startsWith('gid://')) {
+      return wanted;
+    }
+
+    if (/^\d+$/.test(wanted)) {
+      return `gid://shopify/Collection/${wanted}`;
+    }
+
+    const query = `
+      query CollectionByHandle($search: String!) {
+        collections(first: 1, query: $search) {
+          nodes {
+            id
+          }
+        }
+      }
+    `;
+
+    const payload = await this.withRetry(`collection query handle=${wanted}`, async () =>
+      this.graphql<{ collections: { nodes: Array<{ id: string }> } }>(query, {
+        search: `handle:${JSON.stringify(wanted)}`,
+      }),
+    );
+
+    return payload.collections.nodes[0]?.id ?? null;
+  }
+
+  // Runs a bulk query and streams every JSONL record of the result to onRecord.
+  // Returns the number of records read.
+  async runBulkQuery(
+    bulkQuery: string,
+    onRecord: (record: Record<string, unknown>) => void,
+  ): Promise<number> {
+    const mutation = `
+      mutation RunBulkQuery($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation {
+            id
+            status
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `;
+
+    const payload = await this.withRetry('bulk operation start', async () =>
+      this.graphql<{
+        bulkOperationRunQuery: {
+          bulkOperation: { id: string; status: string } | null;
+          userErrors: Array<{ message: string }>;
+        };
+      }>(mutation, { query: bulkQuery }),
+    );
+
+    const { bulkOperation, userErrors } = payload.bulkOperationRunQuery;
+    if (userErrors.length || !bulkOperation) {
+      throw new Error(
+        `Bulk operation rejected: ${userErrors.map((error) => error.message).join('; ')}`,
+      );
+    }
+
+    const finished = await this.waitForBulkOperation(bulkOperation.id);
+    if (!finished.url) {
+      // Completed with no matching objects.
+      return 0;
+    }
+
+    return this.streamJsonl(finished.url, onRecord);
+  }
+
+  private async waitForBulkOperation(id: string): Promise<BulkOperation> {
+    const query = `
+      query BulkOperationStatus($id: ID!) {
+        node(id: $id) {
+          ... on BulkOperation {
+            id
+            status
+            errorCode
+            objectCount
+            url
+          }
+        }
+      }
+    `;
+    const deadline = Date.now() + this.bulkTimeoutMs;
+
+    while (true) {
+      const payload = await this.withRetry(`bulk operation status id=${id}`, async () =>
+        this.graphql<{ node: BulkOperation | null }>(query, { id }),
+      );
+
+      const operation = payload.node;
+      if (!operation) {
+        throw new Error(`Bulk operation ${id} not found`);
+      }
+
+      if (operation.status === 'COMPLETED') {
+        this.logger.log(`Bulk operation ${id} completed with ${operation.objectCount} objects`);
+        return operation;
+      }
+
+      if (['FAILED', 'CANCELED', 'EXPIRED'].includes(operation.status)) {
+        throw new Error(
+          `Bulk operation ${id} ${operation.status.toLowerCase()}${
+            operation.errorCode ? ` (${operation.errorCode})` : ''
+          }`,
+        );
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Bulk operation ${id} did not finish within ${this.bulkTimeoutMs}ms`);
+      }
+
+      await this.delay(this.bulkPollIntervalMs);
+    }
+  }
+
+  // Reads the result file line by line so large catalogs never sit in memory as one string.
+  private async streamJsonl(
+    url: string,
+    onRecord: (record: Record<string, unknown>) => void,
+  ): Promise<number> {
+    const response = await this.transport.download(url);
+    if (!response.ok || !response.body) {
       throw new HttpLikeError(
-        `Shopify GraphQL HTTP ${response.status}: ${message}`,
+        `Bulk operation result download HTTP ${response.status}`,
         response.status,
       );
     }
 
-    const payload = (await response.json()) as GraphqlResponse<T>;
+    const lines = createInterface({
+      input: Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+      crlfDelay: Infinity,
+    });
+
+    let count = 0;
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      onRecord(JSON.parse(line) as Record<string, unknown>);
+      count += 1;
+    }
+
+    return count;
+  }
+
+  private async graphql<T>(
+    query: string,
+    variables?: Record<string, unknown>,
+  ): Promise<T> {
+    const operation = this.getOperationName(query);
+    const reserved = await this.rateLimiter.acquire(operation);
+    let payload: GraphqlResponse<T> | undefined;
+
+    let retryAfterMs: number | undefined;
+
+    try {
+      const response = await this.transport.send(query, variables);
+      retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new HttpLikeError(
+          `Shopify GraphQL HTTP ${response.status}: ${message}`,
+          response.status,
+          retryAfterMs,
+        );
+      }
+
+      payload = (await response.json()) as GraphqlResponse<T>;
+    } finally {
+      this.rateLimiter.release(operation, reserved, payload?.extensions?.cost);
+    }
+
     if (payload.errors?.length) {
-      throw new Error(payload.errors.map((error) => error.message).join('; '));
+      throw new ShopifyGraphqlError(
+        payload.errors.map((error) => error.message).join('; '),
+        payload.errors
+          .map((error) => error.extensions?.code)
+          .filter((code): code is string => Boolean(code)),
+        retryAfterMs,
+      );
     }
 
     if (!payload.data) {
@@ -529,63 +1150,100 @@ export class ShopifyService {
     return payload.data;
   }
 
-  private async withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
+  // Retries throttling, 5xx and network failures with exponential backoff and jitter.
+  // Repeated 5xx/network failures open the circuit breaker, which fails calls fast
+  // with ShopifyUnavailableError until the cooldown ends. With retryUnavailable off, a
+  // 5xx/network failure throws ShopifyWriteOutcomeUnknownError instead of resending.
+  private async withRetry<T>(
+    label: string,
+    operation: () => Promise<T>,
+    { retryUnavailable = true }: { retryUnavailable?: boolean } = {},
+  ): Promise<T> {
     let attempt = 0;
 
     while (true) {
       attempt += 1;
 
+      const openReason = this.circuitBreaker.openReason();
+      if (openReason) {
+        throw new ShopifyUnavailableError(openReason);
+      }
+
       try {
-        return await operation();
+        const result = await operation();
+        this.circuitBreaker.recordSuccess();
+        return result;
       } catch (error: unknown) {
-        const statusCode = this.extractStatusCode(error);
-        const shouldRetry = statusCode === 429 && attempt <= this.maxRetries;
+        const failure = classifyShopifyError(error);
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (failure.kind === 'unavailable') {
+          this.circuitBreaker.recordFailure(message);
+        } else {
+          // Shopify answered, so it is reachable.
+          this.circuitBreaker.recordSuccess();
+        }
 
-        if (!shouldRetry) {
+        if (failure.kind === 'unavailable' && !retryUnavailable) {
+          throw new ShopifyWriteOutcomeUnknownError(message);
+        }
+
+        if (failure.kind === 'permanent' || attempt > this.maxRetries) {
           throw error;
         }
 
-        const delayMs = this.retryBaseDelayMs * attempt;
+        const delayMs = computeBackoffMs(
+          attempt,
+          this.retryBaseDelayMs,
+          this.retryMaxDelayMs,
+          failure.retryAfterMs,
+        );
         this.logger.warn(
-          `Rate limit hit for ${label}. Retry ${attempt}/${this.maxRetries} in ${delayMs}ms`,
+          `${failure.kind === 'throttled' ? 'Throttled' : 'Shopify unavailable'} for ${label} (${message}). Retry ${attempt}/${this.maxRetries} in ${delayMs}ms`,
         );
         await this.delay(delayMs);
       }
     }
   }
 
-  private getGraphqlUrl(): string {
-    const domain = this.shopName.includes('.myshopify.com')
-      ? this.shopName
-      : `${this.shopName}.myshopify.com`;
-
-    return `https://${domain}/admin/api/${this.apiVersion}/graphql.json`;
-  }
+  // Follows pageInfo cursors to the last page, retrying each page. A result larger than
+  // limit throws ShopifyResultLimitError instead of being cut short. Null when the first
+  // page has no connection, i.e. the parent object does not exist.
+  private async collectPages<T>(
+    label: string,
+    limit: number,
+    fetchPage: (after: string | null) => Promise<Connection<T> | null>,
+  ): Promise<T[] | null> {
+    const items: T[] = [];
+    let after: string | null = null;
+    do {
+      const cursor: string | null = after;
+      const connection: Connection<T> | null = await this.withRetry(label, () =>
+        fetchPage(cursor),
+      );
+      if (!connection) {
+        return cursor === null ? null : items;
+      }
 
-  private extractStatusCode(error: unknown): number | undefined {
-    if (error instanceof HttpLikeError) {
-      return error.statusCode;
-    }
+      items.push(...connection.nodes);
+      if (items.length > limit) {
+        throw new ShopifyResultLimitError(
+          `${label} returned more than ${limit} results (safety cap); refusing to use a ` +
+            'partial list',
+        );
+      }
+      after = connection.pageInfo.hasNextPage ? connection.pageInfo.endCursor : null;
+    } while (after);
 
-    if (typeof error !== 'object' || error == null) {
-      return undefined;
-    }
+    return items;
+  }
 
-    const maybeStatus = (error as { statusCode?: number }).statusCode;
-    return typeof maybeStatus === 'number' ? maybeStatus : undefined;
+  // Costs are learned per operation name, e.g. "CurrentInventory".
+  private getOperationName(query: string): string {
+    return query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1] ?? 'anonymous';
   }
 
   private async delay(ms: number): Promise<void> {
     await new Promise((resolve) => setTimeout(resolve, ms));
   }
 }
-
-class HttpLikeError extends Error {
-  constructor(
-    message: string,
-    readonly statusCode: number,
-  ) {
-    super(message);
-    this.name = 'HttpLikeError';
-  }
-}
@@ -0,0 +1,90 @@
+const MINIMUM_CONFIDENCE = 0.58;
+const MINIMUM_GAP = 0.08;
+
+// Returns the single candidate whose title clearly matches, or null when nothing is
+// close enough or the two best candidates are too close to call.
+export function pickBestTitleMatch<T>(
+  inputTitle: string,
+  candidates: T[],
+  getTitle: (candidate: T) => string,
+): T | null {
+  const ranked = candidates
+    .map((candidate) => ({
+      candidate,
+      score: computeTitleSimilarity(inputTitle, getTitle(candidate)),
+    }))
+    .sort((a, b) => b.score - a.score);
+
+  if (!ranked.length) {
+    return null;
+  }
+
+  const best = ranked[0];
+  const secondBest = ranked[1];
+
+  if (best.score < MINIMUM_CONFIDENCE) {
+    return null;
+  }
+
+  if (secondBest && best.score - secondBest.score < MINIMUM_GAP) {
+    // Ambiguous fuzzy match between product titles: require stronger identifier.
+    return null;
+  }
+
+  return best.candidate;
+}
+
+export function computeTitleSimilarity(inputTitle: string, shopifyTitle: string): number {
+  const left = normalizeTitle(inputTitle);
+  const right = normalizeTitle(shopifyTitle);
+
+  if (!left || !right) {
+    return 0;
+  }
+
+  if (left === right) {
+    return 1;
+  }
+
+  let score = jaccardTokenSimilarity(left, right);
+
+  if (left.includes(right) || right.includes(left)) {
+    score += 0.22;
+  }
+
+  // Lightweight prefix hint for names that start similarly.
+  const leftPrefix = left.slice(0, Math.min(10, left.length));
+  const rightPrefix = right.slice(0, Math.min(10, right.length));
+  if (leftPrefix === rightPrefix) {
+    score += 0.08;
+  }
+
+  return Math.min(1, score);
+}
+
+function jaccardTokenSimilarity(a: string, b: string): number {
+  const aTokens = new Set(a.split(' ').filter((token) => token));
+  const bTokens = new Set(b.split(' ').filter((token) => token));
+
+  if (!aTokens.size || !bTokens.size) {
+    return 0;
+  }
+
+  let intersection = 0;
+  for (const token of aTokens) {
+    if (bTokens.has(token)) {
+      intersection += 1;
+    }
+  }
+
+  const union = aTokens.size + bTokens.size - intersection;
+  return union === 0 ? 0 : intersection / union;
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}